@@ -0,0 +1,221 @@
+import { useEffect, useRef, useState } from "react";
+import { CheckCircle2, Download, Layers, Loader2, Play, X, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { buildZip, enhancedFileName } from "@/lib/batch-files";
+import type { EnhanceSettings } from "@/lib/enhance";
+import { createEnhancer, isAbortError } from "@/lib/enhance-client";
+import { formatInfo } from "@/lib/export-format";
+import { formatFileSize } from "@/lib/file-size";
+import type { MetadataEdits, MetadataPolicy } from "@/lib/metadata/policy";
+import { readResolution } from "@/lib/metadata/resolution";
+import { readSourceFile, withMetadata } from "@/lib/source-file";
+
+type BatchStatus = 'queued' | 'processing' | 'done' | 'error';
+
+interface BatchItem {
+  file: File;
+  status: BatchStatus;
+  /** 0–100 within this file */
+  progress: number;
+  /** Name inside the ZIP, once processed */
+  name?: string;
+  bytes?: Uint8Array;
+  error?: string;
+}
+
+interface BatchPanelProps {
+  files: File[];
+  /** Applied to every file when the batch is started */
+  settings: EnhanceSettings;
+  metadataPolicy: MetadataPolicy;
+  metadataEdits: MetadataEdits;
+  onClear: () => void;
+}
+
+const queued = (files: File[]): BatchItem[] => files.map((file) => ({ file, status: 'queued', progress: 0 }));
+
+// Shrinking is shown as a negative change
+const formatChange = (before: number, after: number) => {
+  const change = Math.round((after / before - 1) * 100);
+  return `${change > 0 ? '+' : ''}${change}%`;
+};
+
+export const BatchPanel = ({ files, settings, metadataPolicy, metadataEdits, onClear }: BatchPanelProps) => {
+  const [items, setItems] = useState<BatchItem[]>(() => queued(files));
+  const [isRunning, setIsRunning] = useState(false);
+  // Aborted whenever the queue is replaced so a run in flight stops writing into it
+  const runRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    runRef.current?.abort();
+    setItems(queued(files));
+    setIsRunning(false);
+  }, [files]);
+
+  useEffect(() => () => runRef.current?.abort(), []);
+
+  const update = (index: number, patch: Partial<BatchItem>) =>
+    setItems((current) => current.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+
+  const runBatch = async () => {
+    runRef.current?.abort();
+    const run = new AbortController();
+    runRef.current = run;
+    const { signal } = run;
+    // Snapshot the settings so changing a control mid-batch does not mix outputs
+    const batchSettings = settings;
+    const policy = metadataPolicy;
+    const edits = metadataEdits;
+    const extension = formatInfo(batchSettings.output.format).extension;
+    const taken = new Set<string>();
+    // A worker of its own, so the batch neither blocks nor cancels the preview
+    const enhancer = createEnhancer();
+
+    setItems(queued(files));
+    setIsRunning(true);
+    let failed = 0;
+    try {
+      for (let i = 0; i < files.length; i++) {
+        if (signal.aborted) return;
+        update(i, { status: 'processing', progress: 0 });
+        try {
+          const loaded = await readSourceFile(files[i]);
+          if (signal.aborted) return;
+          update(i, { progress: 5 });
+
+          // Reading and metadata take the ends of the bar, the worker the middle
+          const result = await enhancer.enhance(loaded.source, batchSettings, {
+            signal,
+            onProgress: (progress) => update(i, { progress: 5 + progress.fraction * 90 }),
+          });
+
+          const bytes = withMetadata(result.bytes, loaded.metadata, {
+            policy,
+            edits,
+            width: result.width,
+            height: result.height,
+            dpi: readResolution(result.bytes),
+          });
+          update(i, { status: 'done', progress: 100, bytes, name: enhancedFileName(files[i].name, extension, taken) });
+        } catch (error) {
+          if (isAbortError(error)) return;
+          failed++;
+          update(i, { status: 'error', progress: 100, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    } finally {
+      enhancer.dispose();
+    }
+    setIsRunning(false);
+
+    if (failed === files.length) {
+      toast.error("None of the images could be processed");
+    } else if (failed > 0) {
+      toast.warning(`${files.length - failed} of ${files.length} images processed; ${failed} failed`);
+    } else {
+      toast.success(`${files.length} images processed`);
+    }
+  };
+
+  const handleDownloadZip = () => {
+    const done = items.filter((item) => item.status === 'done');
+    const zip = buildZip(done.map((item) => ({ name: item.name, bytes: item.bytes })));
+    const url = URL.createObjectURL(new Blob([zip], { type: 'application/zip' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'enhanced-images.zip';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    toast.success(`Downloaded ${done.length} images as ZIP`);
+  };
+
+  const done = items.filter((item) => item.status === 'done');
+  const finished = items.filter((item) => item.status === 'done' || item.status === 'error').length;
+  const totalOriginal = done.reduce((sum, item) => sum + item.file.size, 0);
+  const totalEnhanced = done.reduce((sum, item) => sum + item.bytes.length, 0);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Layers className="h-5 w-5 text-primary" />
+          Batch ({items.length} {items.length === 1 ? 'image' : 'images'})
+        </h3>
+        <Button variant="ghost" size="sm" onClick={onClear} disabled={isRunning}>
+          <X className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground mb-4">
+        Every image gets the current adjustments, DPI, output format and metadata settings; the crop and rotation stay with the image they were set on.
+      </p>
+
+      <div className="flex gap-2 mb-4">
+        <Button onClick={runBatch} disabled={isRunning} className="bg-primary hover:bg-primary-hover text-primary-foreground">
+          {isRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+          {isRunning ? `Processing ${finished + 1} of ${items.length}` : 'Process All'}
+        </Button>
+        <Button variant="secondary" onClick={handleDownloadZip} disabled={isRunning || done.length === 0}>
+          <Download className="mr-2 h-4 w-4" />
+          Download ZIP
+        </Button>
+      </div>
+
+      <ScrollArea className="h-72 rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>File</TableHead>
+              <TableHead className="w-32">Status</TableHead>
+              <TableHead className="text-right">Original</TableHead>
+              <TableHead className="text-right">Enhanced</TableHead>
+              <TableHead className="text-right">Change</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item, index) => (
+              <TableRow key={index}>
+                <TableCell className="max-w-[12rem]">
+                  <div className="truncate" title={item.file.name}>{item.file.name}</div>
+                  {item.error && <div className="text-xs text-destructive">{item.error}</div>}
+                </TableCell>
+                <TableCell>
+                  {item.status === 'done' ? (
+                    <CheckCircle2 className="h-4 w-4 text-primary" />
+                  ) : item.status === 'error' ? (
+                    <XCircle className="h-4 w-4 text-destructive" />
+                  ) : item.status === 'processing' ? (
+                    <Progress value={item.progress} className="h-2" />
+                  ) : (
+                    <span className="text-xs text-muted-foreground">Queued</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{formatFileSize(item.file.size)}</TableCell>
+                <TableCell className="text-right">{item.bytes ? formatFileSize(item.bytes.length) : '—'}</TableCell>
+                <TableCell className="text-right">{item.bytes ? formatChange(item.file.size, item.bytes.length) : '—'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          {done.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={2}>Total ({done.length} done)</TableCell>
+                <TableCell className="text-right">{formatFileSize(totalOriginal)}</TableCell>
+                <TableCell className="text-right">{formatFileSize(totalEnhanced)}</TableCell>
+                <TableCell className="text-right">{formatChange(totalOriginal, totalEnhanced)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </ScrollArea>
+    </Card>
+  );
+};
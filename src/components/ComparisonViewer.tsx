@@ -0,0 +1,370 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { Columns2, SplitSquareHorizontal, ToggleLeft } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Toggle } from "@/components/ui/toggle";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { CropRect } from "@/lib/crop";
+import { DEFAULT_TRANSFORM_SETTINGS, cssTransform, transformedSize, type TransformSettings } from "@/lib/transform";
+
+type CompareMode = 'split' | 'side-by-side' | 'toggle';
+type Zoom = 'fit' | 1 | 2 | 4;
+
+const ZOOMS: { value: Zoom; label: string }[] = [
+  { value: 'fit', label: 'Fit' },
+  { value: 1, label: '100%' },
+  { value: 2, label: '200%' },
+  { value: 4, label: '400%' },
+];
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface ComparisonViewerProps {
+  beforeUrl: string | null;
+  afterUrl: string | null;
+  /** Pixel size the zoom levels refer to, normally the full result; a low-resolution preview is stretched to it */
+  size: Size | null;
+  /** Region of the original the result was cut from and how it was turned; the before view follows both to line up */
+  beforeCrop?: CropRect | null;
+  beforeTransform?: TransformSettings;
+  /** Shown next to the title, e.g. while a preview stands in for the result */
+  badge?: ReactNode;
+  /** Drawn over the picture, e.g. progress */
+  overlay?: ReactNode;
+  /** While set, clicks pick from the result instead of panning */
+  picking?: boolean;
+  onPick?: (image: HTMLImageElement, clientX: number, clientY: number) => void;
+  /** While set, dragging draws a line and reports its screen offset instead of panning */
+  drawingLine?: boolean;
+  onLine?: (dx: number, dy: number) => void;
+}
+
+interface Line {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// Shorter lines are taken as slips of the pointer
+const MIN_LINE_LENGTH = 8;
+
+const clamp = (value: number, limit: number) => Math.min(limit, Math.max(-limit, value));
+
+/**
+ * Before and after views of the image that zoom and pan together: a split
+ * with a draggable divider, two panes side by side, or one pane toggled
+ * between them. Both pictures are framed with object-contain, so nothing
+ * is hidden beyond the crop the result itself has.
+ */
+export const ComparisonViewer = ({
+  beforeUrl,
+  afterUrl,
+  size,
+  beforeCrop = null,
+  beforeTransform = DEFAULT_TRANSFORM_SETTINGS,
+  badge,
+  overlay,
+  picking = false,
+  onPick,
+  drawingLine = false,
+  onLine,
+}: ComparisonViewerProps) => {
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [zoom, setZoom] = useState<Zoom>('fit');
+  const [split, setSplit] = useState(0.5);
+  const [showBefore, setShowBefore] = useState(false);
+  // Offset of the picture's centre from the pane's centre, in screen pixels
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [pane, setPane] = useState<Size>({ width: 0, height: 0 });
+  const [natural, setNatural] = useState<Size | null>(null);
+  const [beforeNatural, setBeforeNatural] = useState<Size | null>(null);
+  // In pane coordinates, which every pane shares
+  const [line, setLine] = useState<Line | null>(null);
+  const paneRef = useRef<HTMLDivElement>(null);
+  const afterRef = useRef<HTMLImageElement>(null);
+  const drag = useRef<{ x: number; y: number; offset: { x: number; y: number } } | null>(null);
+
+  const hasAfter = afterUrl !== null;
+  const effectiveMode = hasAfter ? mode : 'toggle';
+
+  useEffect(() => {
+    const element = paneRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setPane({ width: entry.contentRect.width, height: entry.contentRect.height }),
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [effectiveMode]);
+
+  const reference = size ?? natural;
+  const fitScale = reference ? Math.min(pane.width / reference.width, pane.height / reference.height) : 1;
+  const scale = zoom === 'fit' ? fitScale : zoom;
+  const box = reference ? { width: reference.width * scale, height: reference.height * scale } : null;
+  const limit = {
+    x: box ? Math.max(0, (box.width - pane.width) / 2) : 0,
+    y: box ? Math.max(0, (box.height - pane.height) / 2) : 0,
+  };
+  const position = { x: clamp(offset.x, limit.x), y: clamp(offset.y, limit.y) };
+
+  // Keeps the point at the centre of the view in place across zoom levels
+  const changeZoom = (next: Zoom) => {
+    const ratio = scale > 0 ? (next === 'fit' ? fitScale : next) / scale : 0;
+    setOffset({ x: position.x * ratio, y: position.y * ratio });
+    setZoom(next);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (drawingLine) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      const rect = e.currentTarget.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      setLine({ x1: x, y1: y, x2: x, y2: y });
+      return;
+    }
+    if (picking || zoom === 'fit') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { x: e.clientX, y: e.clientY, offset: position };
+  };
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (line) {
+      const rect = e.currentTarget.getBoundingClientRect();
+      setLine({ ...line, x2: e.clientX - rect.left, y2: e.clientY - rect.top });
+      return;
+    }
+    if (!drag.current) return;
+    setOffset({
+      x: drag.current.offset.x + e.clientX - drag.current.x,
+      y: drag.current.offset.y + e.clientY - drag.current.y,
+    });
+  };
+  const handlePointerUp = () => {
+    drag.current = null;
+    if (!line) return;
+    const dx = line.x2 - line.x1;
+    const dy = line.y2 - line.y1;
+    if (Math.hypot(dx, dy) >= MIN_LINE_LENGTH) onLine?.(dx, dy);
+    setLine(null);
+  };
+
+  // Every pane shows the same framing, so a click in any of them maps to the same spot of the result
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const after = afterRef.current;
+    if (!picking || !after || !onPick) return;
+    const clicked = e.currentTarget.getBoundingClientRect();
+    const target = after.closest('[data-pane]')?.getBoundingClientRect() ?? clicked;
+    onPick(after, e.clientX - clicked.left + target.left, e.clientY - clicked.top + target.top);
+  };
+
+  const handleSplitDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    else if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const rect = paneRef.current?.getBoundingClientRect();
+    if (rect) setSplit(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  // The original is shown cut and turned the way the result was, contained
+  // in the same box: the cropped region is centred and turned about its
+  // centre, with the whole picture placed inside it
+  const beforeLayout = (source: Size, frame: Size) => {
+    const region = beforeCrop ?? { x: 0, y: 0, ...source };
+    const output = transformedSize(region.width, region.height, beforeTransform);
+    const k = Math.min(frame.width / output.width, frame.height / output.height);
+    return {
+      region: {
+        left: (frame.width - region.width * k) / 2,
+        top: (frame.height - region.height * k) / 2,
+        width: region.width * k,
+        height: region.height * k,
+        transform: cssTransform(beforeTransform),
+      },
+      image: { left: -region.x * k, top: -region.y * k, width: source.width * k, height: source.height * k },
+    };
+  };
+
+  const picture = (url: string, alt: string, after: boolean) => {
+    const layout = !after && beforeNatural && box && hasAfter ? beforeLayout(beforeNatural, box) : null;
+    const image = (
+      <img
+        ref={after ? afterRef : undefined}
+        src={url}
+        alt={alt}
+        draggable={false}
+        onLoad={(e) => {
+          const loaded = { width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight };
+          if (!after) setBeforeNatural(loaded);
+          if (after || !hasAfter) setNatural(loaded);
+        }}
+        className={`absolute max-w-none select-none object-contain ${scale > 1 ? '[image-rendering:pixelated]' : ''}`}
+        style={layout ? layout.image : { inset: 0, width: '100%', height: '100%' }}
+      />
+    );
+    return (
+      <div
+        className="absolute left-1/2 top-1/2 overflow-hidden"
+        style={{
+          width: box?.width,
+          height: box?.height,
+          transform: `translate(calc(-50% + ${position.x}px), calc(-50% + ${position.y}px))`,
+        }}
+      >
+        {layout ? (
+          <div className="absolute" style={layout.region}>
+            {image}
+          </div>
+        ) : (
+          image
+        )}
+      </div>
+    );
+  };
+
+  const label = (text: string, side: 'left' | 'right') => (
+    <span
+      className={`pointer-events-none absolute top-2 ${side === 'left' ? 'left-2' : 'right-2'} rounded bg-background/80 px-2 py-0.5 text-xs font-medium`}
+    >
+      {text}
+    </span>
+  );
+
+  const guide = line && (
+    <svg className="pointer-events-none absolute inset-0 h-full w-full">
+      <line {...line} stroke="hsl(var(--primary))" strokeWidth={2} strokeDasharray="6 4" />
+    </svg>
+  );
+
+  const paneProps = (ref: boolean) => ({
+    ref: ref ? paneRef : undefined,
+    'data-pane': true,
+    className: `relative flex-1 overflow-hidden rounded-lg bg-surface touch-none ${
+      picking || drawingLine ? 'cursor-crosshair' : zoom === 'fit' ? '' : 'cursor-grab active:cursor-grabbing'
+    }`,
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: () => {
+      drag.current = null;
+      setLine(null);
+    },
+    onClick: handleClick,
+  });
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold">
+          Compare
+          {badge}
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={effectiveMode}
+            onValueChange={(value) => value && setMode(value as CompareMode)}
+            disabled={!hasAfter}
+          >
+            <ToggleGroupItem value="split" aria-label="Split view">
+              <SplitSquareHorizontal className="h-4 w-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="side-by-side" aria-label="Side by side">
+              <Columns2 className="h-4 w-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="toggle" aria-label="Toggle between before and after">
+              <ToggleLeft className="h-4 w-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={String(zoom)}
+            onValueChange={(value) => value && changeZoom(value === 'fit' ? 'fit' : (Number(value) as Zoom))}
+          >
+            {ZOOMS.map((option) => (
+              <ToggleGroupItem key={option.label} value={String(option.value)} className="text-xs">
+                {option.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          {effectiveMode === 'toggle' && hasAfter && (
+            <Toggle variant="outline" size="sm" pressed={showBefore} onPressedChange={setShowBefore}>
+              Before
+            </Toggle>
+          )}
+        </div>
+      </div>
+
+      <div className="relative flex h-[28rem] gap-2">
+        {effectiveMode === 'side-by-side' && beforeUrl && afterUrl ? (
+          <>
+            <div {...paneProps(true)}>
+              {picture(beforeUrl, 'Original', false)}
+              {label('Before', 'left')}
+              {guide}
+            </div>
+            <div {...paneProps(false)}>
+              {picture(afterUrl, 'Enhanced', true)}
+              {label('After', 'left')}
+              {guide}
+            </div>
+          </>
+        ) : (
+          <div {...paneProps(true)}>
+            {beforeUrl && (effectiveMode !== 'toggle' || showBefore || !afterUrl) && picture(beforeUrl, 'Original', false)}
+            {afterUrl && (
+              // Clipped rather than hidden in toggle mode, so its frame stays measurable for picking
+              <div
+                className="absolute inset-0"
+                style={{
+                  clipPath:
+                    effectiveMode === 'split' ? `inset(0 0 0 ${split * 100}%)` : showBefore ? 'inset(0 0 0 100%)' : undefined,
+                }}
+              >
+                {picture(afterUrl, 'Enhanced', true)}
+              </div>
+            )}
+            {effectiveMode === 'split' && afterUrl && (
+              <>
+                {label('Before', 'left')}
+                {label('After', 'right')}
+                <div
+                  role="slider"
+                  aria-label="Split position"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(split * 100)}
+                  tabIndex={0}
+                  className="absolute inset-y-0 -ml-3 flex w-6 cursor-ew-resize justify-center"
+                  style={{ left: `${split * 100}%` }}
+                  onPointerDown={(e) => {
+                    e.stopPropagation();
+                    handleSplitDrag(e);
+                  }}
+                  onPointerMove={(e) => {
+                    e.stopPropagation();
+                    handleSplitDrag(e);
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                  onKeyDown={(e) => {
+                    if (e.key === 'ArrowLeft') setSplit((current) => Math.max(0, current - 0.05));
+                    if (e.key === 'ArrowRight') setSplit((current) => Math.min(1, current + 0.05));
+                  }}
+                >
+                  <div className="h-full w-0.5 bg-background shadow" />
+                  <div className="absolute top-1/2 h-8 w-4 -translate-y-1/2 rounded-full border bg-background shadow" />
+                </div>
+              </>
+            )}
+            {effectiveMode === 'toggle' && afterUrl && label(showBefore ? 'Before' : 'After', 'left')}
+            {guide}
+          </div>
+        )}
+        {overlay}
+      </div>
+    </Card>
+  );
+};
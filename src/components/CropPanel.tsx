@@ -0,0 +1,298 @@
+import { useEffect, useRef, useState } from "react";
+import { ArrowLeftRight, Crop } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CROP_RATIOS, centeredCrop, clampCrop, dragCrop, shrinkToRatio, type CropHandle, type CropRect } from "@/lib/crop";
+import type { Resolution } from "@/lib/metadata/resolution";
+import { PAPER_SIZES, paperToInches, type PaperSize } from "@/lib/paper-sizes";
+
+interface CropPanelProps {
+  imageUrl: string;
+  /** Upright size of the source, which the crop is measured in */
+  width: number;
+  height: number;
+  dpi: Resolution;
+  targetDpi: number;
+  /** Whether the output is turned a quarter, so the crop's height becomes the print width */
+  quarterTurned: boolean;
+  crop: CropRect | null;
+  onCropChange: (crop: CropRect | null) => void;
+  /** Called with the paper width in inches when a paper ratio is picked, so the output prints at that size */
+  onPrintWidthChange: (printWidthIn: number) => void;
+  /** Told when a drag starts and ends, so the preview can stay light meanwhile */
+  onAdjustingChange?: (adjusting: boolean) => void;
+}
+
+type CropUnit = 'px' | 'in';
+
+const PAPER_GROUPS: PaperSize['group'][] = ['ISO', 'US', 'Photo', 'Poster'];
+
+const HANDLES: { handle: CropHandle; className: string }[] = [
+  { handle: 'nw', className: 'left-0 top-0 cursor-nwse-resize' },
+  { handle: 'n', className: 'left-1/2 top-0 cursor-ns-resize' },
+  { handle: 'ne', className: 'left-full top-0 cursor-nesw-resize' },
+  { handle: 'e', className: 'left-full top-1/2 cursor-ew-resize' },
+  { handle: 'se', className: 'left-full top-full cursor-nwse-resize' },
+  { handle: 's', className: 'left-1/2 top-full cursor-ns-resize' },
+  { handle: 'sw', className: 'left-0 top-full cursor-nesw-resize' },
+  { handle: 'w', className: 'left-0 top-1/2 cursor-ew-resize' },
+];
+
+// The paper edge along the output's width: the short one when the output stands upright
+const paperPrintWidth = (paper: PaperSize, outputPortrait: boolean) =>
+  paperToInches(outputPortrait ? paper.width : paper.height, paper.unit);
+
+const FIELDS: { key: keyof CropRect; label: string }[] = [
+  { key: 'x', label: 'Left' },
+  { key: 'y', label: 'Top' },
+  { key: 'width', label: 'Width' },
+  { key: 'height', label: 'Height' },
+];
+
+export const CropPanel = ({
+  imageUrl,
+  width,
+  height,
+  dpi,
+  targetDpi,
+  quarterTurned,
+  crop,
+  onCropChange,
+  onPrintWidthChange,
+  onAdjustingChange,
+}: CropPanelProps) => {
+  const [ratioId, setRatioId] = useState('free');
+  // Ratios are listed landscape; portrait turns them, starting from the image's own orientation
+  const [portrait, setPortrait] = useState(height > width);
+  const [unit, setUnit] = useState<CropUnit>('px');
+  const [frame, setFrame] = useState({ width: 0, height: 0 });
+  const frameRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ handle: CropHandle; x: number; y: number; start: CropRect } | null>(null);
+
+  useEffect(() => {
+    const element = frameRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setFrame({ width: entry.contentRect.width, height: entry.contentRect.height }),
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const rect = crop ?? { x: 0, y: 0, width, height };
+  const paper = PAPER_SIZES.find((p) => p.id === ratioId);
+  const landscapeRatio = paper ? paper.height / paper.width : CROP_RATIOS.find((r) => r.value === ratioId)?.ratio ?? null;
+  const ratio = landscapeRatio && (portrait ? 1 / landscapeRatio : landscapeRatio);
+  // Screen pixels per source pixel, with the picture contained in the frame
+  const scale = Math.min(frame.width / width, frame.height / height) || 1;
+
+  const applyRatio = (nextId: string, nextPortrait: boolean) => {
+    setRatioId(nextId);
+    setPortrait(nextPortrait);
+    const nextPaper = PAPER_SIZES.find((p) => p.id === nextId);
+    const base = nextPaper ? nextPaper.height / nextPaper.width : CROP_RATIOS.find((r) => r.value === nextId)?.ratio;
+    if (!base) return;
+    onCropChange(centeredCrop(width, height, nextPortrait ? 1 / base : base));
+    if (nextPaper) onPrintWidthChange(paperPrintWidth(nextPaper, nextPortrait !== quarterTurned));
+  };
+
+  // A quarter turn puts the crop's other edge along the output's width, and the print width with it
+  const turnedRef = useRef(quarterTurned);
+  useEffect(() => {
+    if (turnedRef.current === quarterTurned) return;
+    turnedRef.current = quarterTurned;
+    if (paper) onPrintWidthChange(paperPrintWidth(paper, portrait !== quarterTurned));
+  }, [quarterTurned, paper, portrait, onPrintWidthChange]);
+
+  const startDrag = (handle: CropHandle) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { handle, x: e.clientX, y: e.clientY, start: rect };
+    onAdjustingChange?.(true);
+  };
+  const moveDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    const current = drag.current;
+    if (!current) return;
+    const dx = (e.clientX - current.x) / scale;
+    const dy = (e.clientY - current.y) / scale;
+    onCropChange(clampCrop(dragCrop(current.start, current.handle, dx, dy, ratio, width, height), width, height));
+  };
+  const endDrag = () => {
+    if (!drag.current) return;
+    drag.current = null;
+    onAdjustingChange?.(false);
+  };
+
+  const toUnit = (pixels: number, key: keyof CropRect) =>
+    unit === 'px' ? pixels : Number((pixels / (key === 'x' || key === 'width' ? dpi.x : dpi.y)).toFixed(2));
+  const setField = (key: keyof CropRect, value: number) => {
+    if (!(value >= 0)) return;
+    const pixels = unit === 'px' ? value : value * (key === 'x' || key === 'width' ? dpi.x : dpi.y);
+    const next = { ...rect, [key]: pixels };
+    // A typed width or height drags the other one along when a ratio is set
+    if (ratio && key === 'width') next.height = pixels / ratio;
+    if (ratio && key === 'height') next.width = pixels * ratio;
+    // Clamping to the image trims each axis on its own, so the other one is trimmed back to the ratio
+    const clamped = clampCrop(next, width, height);
+    onCropChange(ratio ? shrinkToRatio(clamped, ratio) : clamped);
+  };
+
+  const outputWidthIn = rect.width / dpi.x;
+  const outputHeightIn = rect.height / dpi.y;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Crop className="h-5 w-5 text-primary" />
+          Crop
+        </h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setRatioId('free');
+            onCropChange(null);
+          }}
+          disabled={!crop}
+        >
+          Reset
+        </Button>
+      </div>
+
+      <div className="space-y-4 text-sm">
+        <div ref={frameRef} className="relative h-56 bg-surface rounded-lg overflow-hidden">
+          {frame.width > 0 && (
+            <div
+              className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2"
+              style={{ width: width * scale, height: height * scale }}
+            >
+              <img src={imageUrl} alt="Crop source" draggable={false} className="h-full w-full select-none object-contain" />
+              <div
+                className="absolute cursor-move touch-none border border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+                style={{ left: rect.x * scale, top: rect.y * scale, width: rect.width * scale, height: rect.height * scale }}
+                onPointerDown={startDrag('move')}
+                onPointerMove={moveDrag}
+                onPointerUp={endDrag}
+                onPointerCancel={endDrag}
+              >
+                {/* Rule-of-thirds guides */}
+                <div className="pointer-events-none absolute inset-y-0 left-1/3 w-px bg-white/60" />
+                <div className="pointer-events-none absolute inset-y-0 left-2/3 w-px bg-white/60" />
+                <div className="pointer-events-none absolute inset-x-0 top-1/3 h-px bg-white/60" />
+                <div className="pointer-events-none absolute inset-x-0 top-2/3 h-px bg-white/60" />
+                {HANDLES.map(({ handle, className }) => (
+                  <div
+                    key={handle}
+                    className={`absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-sm border border-primary bg-background ${className}`}
+                    onPointerDown={startDrag(handle)}
+                    onPointerMove={moveDrag}
+                    onPointerUp={endDrag}
+                    onPointerCancel={endDrag}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={paper ? '' : ratioId}
+            onValueChange={(value) => value && applyRatio(value, portrait)}
+            className="flex-wrap justify-start"
+          >
+            {CROP_RATIOS.map((option) => (
+              <ToggleGroupItem key={option.value} value={option.value} className="text-xs">
+                {option.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => applyRatio(ratioId, !portrait)}
+            disabled={!ratio || ratio === 1}
+            aria-label="Swap portrait and landscape"
+          >
+            <ArrowLeftRight className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div>
+          <label className="font-medium mb-2 block">Paper ratio</label>
+          <Select value={paper ? paper.id : ''} onValueChange={(value) => applyRatio(value, portrait)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Match a paper size…" />
+            </SelectTrigger>
+            <SelectContent>
+              {PAPER_GROUPS.map((group) => (
+                <SelectGroup key={group}>
+                  <SelectLabel>{group}</SelectLabel>
+                  {PAPER_SIZES.filter((p) => p.group === group).map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              ))}
+            </SelectContent>
+          </Select>
+          {paper && (
+            <div className="text-xs text-muted-foreground mt-1">
+              Resampled to print at {paper.label} {portrait !== quarterTurned ? 'portrait' : 'landscape'}, {targetDpi} DPI
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">Region</span>
+            <RadioGroup value={unit} onValueChange={(value) => setUnit(value as CropUnit)} className="flex items-center gap-3">
+              {(['px', 'in'] as const).map((option) => (
+                <div key={option} className="flex items-center gap-1">
+                  <RadioGroupItem value={option} id={`crop-unit-${option}`} />
+                  <Label htmlFor={`crop-unit-${option}`} className="font-normal">{option}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {FIELDS.map(({ key, label }) => (
+              <div key={key}>
+                <Label htmlFor={`crop-${key}`} className="text-xs text-muted-foreground">{label}</Label>
+                <Input
+                  id={`crop-${key}`}
+                  type="number"
+                  min={0}
+                  step={unit === 'px' ? 1 : 0.01}
+                  value={toUnit(rect[key], key)}
+                  onChange={(e) => setField(key, parseFloat(e.target.value))}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {rect.width} × {rect.height} px, {outputWidthIn.toFixed(2)} × {outputHeightIn.toFixed(2)} in at the source's{' '}
+            {Math.round(dpi.x)} DPI
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+};
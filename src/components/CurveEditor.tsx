@@ -0,0 +1,118 @@
+import { useMemo, useRef, useState } from "react";
+import { evaluateCurve, type CurvePoint } from "@/lib/filters/tone";
+
+interface CurveEditorProps {
+  points: CurvePoint[];
+  onPointsChange: (points: CurvePoint[]) => void;
+  /** Stroke colour of the curve */
+  color?: string;
+  /** Told when a drag starts and ends, so the preview can stay light meanwhile */
+  onAdjustingChange?: (adjusting: boolean) => void;
+}
+
+const SIZE = 255;
+const HIT_RADIUS = 8;
+
+/**
+ * A tone curve over levels 0–255. Drag a point to move it, click empty space
+ * to add one and double-click a point to remove it; the end points stay.
+ */
+export const CurveEditor = ({ points, onPointsChange, color = 'hsl(var(--primary))', onAdjustingChange }: CurveEditorProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const sorted = useMemo(() => [...points].sort((a, b) => a.x - b.x), [points]);
+
+  const path = useMemo(() => {
+    const curve = evaluateCurve(sorted);
+    return Array.from(curve, (y, x) => `${x === 0 ? 'M' : 'L'}${x},${SIZE - y}`).join(' ');
+  }, [sorted]);
+
+  // Pointer position in levels, clamped to the chart
+  const levelAt = (event: React.PointerEvent | React.MouseEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = Math.round(((event.clientX - rect.left) / rect.width) * SIZE);
+    const y = Math.round(SIZE - ((event.clientY - rect.top) / rect.height) * SIZE);
+    return { x: Math.min(SIZE, Math.max(0, x)), y: Math.min(SIZE, Math.max(0, y)) };
+  };
+
+  const nearest = (at: CurvePoint) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const hit = (HIT_RADIUS / rect.width) * SIZE;
+    const index = sorted.findIndex((point) => Math.hypot(point.x - at.x, point.y - at.y) <= hit);
+    return index === -1 ? null : index;
+  };
+
+  // A point moves between its neighbours only, so the order never changes
+  const moveTo = (index: number, to: CurvePoint, from: CurvePoint[]) => {
+    const min = index === 0 ? 0 : from[index - 1].x + 1;
+    const max = index === from.length - 1 ? SIZE : from[index + 1].x - 1;
+    const next = [...from];
+    next[index] = { x: Math.min(max, Math.max(min, to.x)), y: to.y };
+    onPointsChange(next);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const at = levelAt(event);
+    let index = nearest(at);
+    let next = sorted;
+    if (index === null) {
+      if (sorted.some((point) => point.x === at.x)) return;
+      next = [...sorted, at].sort((a, b) => a.x - b.x);
+      index = next.indexOf(at);
+      onPointsChange(next);
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragging(index);
+    onAdjustingChange?.(true);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (dragging !== null) moveTo(dragging, levelAt(event), sorted);
+  };
+
+  const handlePointerUp = () => {
+    if (dragging === null) return;
+    setDragging(null);
+    onAdjustingChange?.(false);
+  };
+
+  const handleDoubleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const index = nearest(levelAt(event));
+    if (index === null || index === 0 || index === sorted.length - 1) return;
+    onPointsChange(sorted.filter((_, i) => i !== index));
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      className="w-full aspect-square rounded-md border bg-surface touch-none cursor-crosshair"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={handleDoubleClick}
+    >
+      {[64, 128, 192].map((line) => (
+        <g key={line} className="stroke-border" strokeWidth={1} vectorEffect="non-scaling-stroke">
+          <line x1={line} y1={0} x2={line} y2={SIZE} vectorEffect="non-scaling-stroke" />
+          <line x1={0} y1={line} x2={SIZE} y2={line} vectorEffect="non-scaling-stroke" />
+        </g>
+      ))}
+      <line x1={0} y1={SIZE} x2={SIZE} y2={0} className="stroke-muted-foreground" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+      <path d={path} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      {sorted.map((point, index) => (
+        <circle
+          key={index}
+          cx={point.x}
+          cy={SIZE - point.y}
+          r={4}
+          fill={dragging === index ? color : 'hsl(var(--background))'}
+          stroke={color}
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </svg>
+  );
+};
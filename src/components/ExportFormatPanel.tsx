@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { FileImage } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { EXPORT_FORMATS, usesQuality, type ExportFormat, type ExportOptions } from "@/lib/export-format";
+import type { PngBitDepth } from "@/lib/encoders/png";
+import type { TiffCompression } from "@/lib/encoders/tiff";
+import { fromBytes, toBytes, type SizeUnit } from "@/lib/file-size";
+
+interface ExportFormatPanelProps {
+  options: ExportOptions;
+  onOptionsChange: (options: ExportOptions) => void;
+  quality: number[];
+  onQualityChange: (quality: number[]) => void;
+  /** Told when a slider drag starts and ends, so the preview can stay light meanwhile */
+  onAdjustingChange?: (adjusting: boolean) => void;
+}
+
+export const ExportFormatPanel = ({ options, onOptionsChange, quality, onQualityChange, onAdjustingChange }: ExportFormatPanelProps) => {
+  const [sizeUnit, setSizeUnit] = useState<SizeUnit>('KB');
+  const update = (patch: Partial<ExportOptions>) => onOptionsChange({ ...options, ...patch });
+  const adjust = (patch: Partial<ExportOptions>) => {
+    update(patch);
+    onAdjustingChange?.(true);
+  };
+  const commit = () => onAdjustingChange?.(false);
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-6 flex items-center gap-2">
+        <FileImage className="h-5 w-5 text-primary" />
+        Output Format
+      </h3>
+
+      <div className="space-y-6">
+        <div>
+          <label className="text-sm font-medium mb-2 block">Format</label>
+          <Select value={options.format} onValueChange={(value) => update({ format: value as ExportFormat })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPORT_FORMATS.map((format) => (
+                <SelectItem key={format.value} value={format.value}>
+                  {format.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {options.format === 'png' && (
+          <>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Bit Depth</label>
+              <RadioGroup
+                value={String(options.pngBitDepth)}
+                onValueChange={(value) => update({ pngBitDepth: Number(value) as PngBitDepth })}
+                className="flex gap-4"
+              >
+                {[8, 16].map((depth) => (
+                  <div key={depth} className="flex items-center space-x-2">
+                    <RadioGroupItem value={String(depth)} id={`png-depth-${depth}`} />
+                    <Label htmlFor={`png-depth-${depth}`}>{depth}-bit</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">
+                Compression Level: {options.pngCompression}
+              </label>
+              <Slider
+                value={[options.pngCompression]}
+                onValueChange={(value) => adjust({ pngCompression: value[0] })}
+                onValueCommit={commit}
+                max={9}
+                min={0}
+                step={1}
+                className="w-full"
+              />
+            </div>
+          </>
+        )}
+
+        {options.format === 'webp' && (
+          <div className="flex items-center justify-between">
+            <Label htmlFor="webp-lossless">Lossless</Label>
+            <Switch
+              id="webp-lossless"
+              checked={options.webpLossless}
+              onCheckedChange={(checked) => update({ webpLossless: checked })}
+            />
+          </div>
+        )}
+
+        {options.format === 'avif' && (
+          <div>
+            <label className="text-sm font-medium mb-2 block">
+              Encoder Speed: {options.avifSpeed}
+            </label>
+            <Slider
+              value={[options.avifSpeed]}
+              onValueChange={(value) => adjust({ avifSpeed: value[0] })}
+              onValueCommit={commit}
+              max={10}
+              min={0}
+              step={1}
+              className="w-full"
+            />
+            <p className="text-xs text-muted-foreground mt-1">Lower is slower but smaller</p>
+          </div>
+        )}
+
+        {options.format === 'tiff' && (
+          <div>
+            <label className="text-sm font-medium mb-2 block">Compression</label>
+            <RadioGroup
+              value={options.tiffCompression}
+              onValueChange={(value) => update({ tiffCompression: value as TiffCompression })}
+              className="flex gap-4"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="none" id="tiff-none" />
+                <Label htmlFor="tiff-none">Uncompressed</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="lzw" id="tiff-lzw" />
+                <Label htmlFor="tiff-lzw">LZW</Label>
+              </div>
+            </RadioGroup>
+          </div>
+        )}
+
+        {usesQuality(options) && (
+          <div>
+            <label className="text-sm font-medium mb-2 block">
+              {options.maxFileSize !== null ? 'Max Quality' : 'Quality'}: {quality[0]}%
+            </label>
+            <Slider
+              value={quality}
+              onValueChange={(value) => {
+                onQualityChange(value);
+                onAdjustingChange?.(true);
+              }}
+              onValueCommit={commit}
+              max={100}
+              min={10}
+              step={5}
+              className="w-full"
+            />
+          </div>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="keep-encoding">Keep original encoding</Label>
+            <Switch
+              id="keep-encoding"
+              checked={options.keepOriginalEncoding}
+              onCheckedChange={(checked) => update({ keepOriginalEncoding: checked })}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            When no adjustment changes the pixels and the format matches the upload, the original file is reused
+            with only its DPI and metadata rewritten, so it is not recompressed.
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="size-limit">Limit file size</Label>
+            <Switch
+              id="size-limit"
+              checked={options.maxFileSize !== null}
+              onCheckedChange={(checked) => update({ maxFileSize: checked ? toBytes(500, 'KB') : null })}
+            />
+          </div>
+          {options.maxFileSize !== null && (
+            <>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  min={0.01}
+                  step="any"
+                  value={Number(fromBytes(options.maxFileSize, sizeUnit).toFixed(2))}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (value > 0) update({ maxFileSize: toBytes(value, sizeUnit) });
+                  }}
+                />
+                <Select value={sizeUnit} onValueChange={(value) => setSizeUnit(value as SizeUnit)}>
+                  <SelectTrigger className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="KB">KB</SelectItem>
+                    <SelectItem value="MB">MB</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="allow-downscale">Shrink dimensions if needed</Label>
+                <Switch
+                  id="allow-downscale"
+                  checked={options.allowDownscale}
+                  onCheckedChange={(checked) => update({ allowDownscale: checked })}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {usesQuality(options)
+                  ? 'Quality is lowered until the file fits.'
+                  : 'This format has no quality setting; only shrinking can reduce its size.'}
+              </p>
+            </>
+          )}
+        </div>
+
+        {(options.format === 'tiff' || options.format === 'bmp') && (
+          <p className="text-xs text-muted-foreground">EXIF, XMP and IPTC metadata is not carried into this format.</p>
+        )}
+      </div>
+    </Card>
+  );
+};
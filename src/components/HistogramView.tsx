@@ -0,0 +1,102 @@
+import { useMemo, useState } from "react";
+import { Area, AreaChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, type ChartConfig } from "@/components/ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { HISTOGRAM_CHANNELS, type HistogramChannel, type ImageHistogram } from "@/lib/histogram";
+
+interface HistogramViewProps {
+  histogram: ImageHistogram | null;
+}
+
+type HistogramMode = 'luma' | 'rgb';
+
+const CHART_CONFIG = {
+  luma: { label: 'Luminance', color: 'hsl(var(--muted-foreground))' },
+  red: { label: 'Red', color: '#ef4444' },
+  green: { label: 'Green', color: '#22c55e' },
+  blue: { label: 'Blue', color: '#3b82f6' },
+} satisfies ChartConfig;
+
+const MODE_CHANNELS: Record<HistogramMode, HistogramChannel[]> = {
+  luma: ['luma'],
+  rgb: ['red', 'green', 'blue'],
+};
+
+// Clipping above this share of pixels is flagged
+const CLIP_WARNING = 0.005;
+
+const formatShare = (share: number) => `${(share * 100).toFixed(share > 0 && share < 0.001 ? 2 : 1)}%`;
+
+export const HistogramView = ({ histogram }: HistogramViewProps) => {
+  const [mode, setMode] = useState<HistogramMode>('luma');
+
+  // Each channel is scaled to its own tallest bin, leaving out the two end
+  // levels so a clipping spike does not flatten the rest of the curve
+  const data = useMemo(() => {
+    if (!histogram) return [];
+    const peaks = Object.fromEntries(
+      HISTOGRAM_CHANNELS.map(({ value }) => [value, Math.max(1, ...histogram.bins[value].subarray(1, 255))]),
+    ) as Record<HistogramChannel, number>;
+    return Array.from({ length: 256 }, (_, level) => ({
+      level,
+      luma: Math.min(1, histogram.bins.luma[level] / peaks.luma),
+      red: Math.min(1, histogram.bins.red[level] / peaks.red),
+      green: Math.min(1, histogram.bins.green[level] / peaks.green),
+      blue: Math.min(1, histogram.bins.blue[level] / peaks.blue),
+    }));
+  }, [histogram]);
+
+  if (!histogram) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Histogram</span>
+        <ToggleGroup type="single" size="sm" value={mode} onValueChange={(value) => value && setMode(value as HistogramMode)}>
+          <ToggleGroupItem value="luma" className="text-xs">Luminance</ToggleGroupItem>
+          <ToggleGroupItem value="rgb" className="text-xs">RGB</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+      <ChartContainer config={CHART_CONFIG} className="aspect-[3/1] w-full">
+        <AreaChart data={data} margin={{ top: 2, right: 0, bottom: 0, left: 0 }}>
+          <XAxis dataKey="level" type="number" domain={[0, 255]} hide />
+          <YAxis domain={[0, 1]} hide />
+          {MODE_CHANNELS[mode].map((channel) => (
+            <Area
+              key={channel}
+              dataKey={channel}
+              type="linear"
+              stroke={`var(--color-${channel})`}
+              fill={`var(--color-${channel})`}
+              fillOpacity={mode === 'luma' ? 0.6 : 0.25}
+              strokeWidth={1}
+              isAnimationActive={false}
+            />
+          ))}
+        </AreaChart>
+      </ChartContainer>
+      <div className="flex justify-between text-xs">
+        <span className={histogram.clipped.shadows > CLIP_WARNING ? 'text-destructive' : 'text-muted-foreground'}>
+          ◀ Crushed shadows {formatShare(histogram.clipped.shadows)}
+        </span>
+        <span className={histogram.clipped.highlights > CLIP_WARNING ? 'text-destructive' : 'text-muted-foreground'}>
+          Blown highlights {formatShare(histogram.clipped.highlights)} ▶
+        </span>
+      </div>
+      <div className="grid grid-cols-4 gap-x-2 text-xs text-muted-foreground tabular-nums">
+        <span />
+        <span className="text-right">Mean</span>
+        <span className="text-right">Median</span>
+        <span className="text-right">Std dev</span>
+        {HISTOGRAM_CHANNELS.map(({ value, label }) => (
+          <div key={value} className="contents">
+            <span>{label}</span>
+            <span className="text-right">{histogram.stats[value].mean.toFixed(1)}</span>
+            <span className="text-right">{histogram.stats[value].median}</span>
+            <span className="text-right">{histogram.stats[value].std.toFixed(1)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,117 +1,363 @@
-import { useState, useRef, useCallback } from "react";
-import { Upload, Download, Image as ImageIcon, Zap, Share2, Facebook, Twitter, Linkedin } from "lucide-react";
+import { useState, useRef, useEffect, useMemo } from "react";
+import { Upload, Download, FolderOpen, Image as ImageIcon, Pipette, Wand2, Share2, Facebook, Twitter, Linkedin } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { BatchPanel } from "@/components/BatchPanel";
+import { ComparisonViewer } from "@/components/ComparisonViewer";
+import { CropPanel } from "@/components/CropPanel";
+import { ExportFormatPanel } from "@/components/ExportFormatPanel";
+import { HistogramView } from "@/components/HistogramView";
+import { MetadataPanel } from "@/components/MetadataPanel";
+import { NoiseReductionPanel } from "@/components/NoiseReductionPanel";
+import { PrintSizePanel } from "@/components/PrintSizePanel";
+import { SharpeningPanel } from "@/components/SharpeningPanel";
+import { TonePanel } from "@/components/TonePanel";
+import { TransformPanel } from "@/components/TransformPanel";
 import { Slider } from "@/components/ui/slider";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
+import { useHistogram } from "@/hooks/use-histogram";
+import { useObjectUrl } from "@/hooks/use-object-url";
+import { formatResolution, readResolution, type Resolution } from "@/lib/metadata/resolution";
+import { EMPTY_METADATA, type ImageMetadata } from "@/lib/metadata/extract";
+import { describeScan } from "@/lib/metadata/format";
+import { ORIENTATION_LABELS, type Orientation } from "@/lib/metadata/orientation";
+import type { MetadataEdits, MetadataPolicy } from "@/lib/metadata/policy";
+import { collectDroppedFiles, inputFiles } from "@/lib/batch-files";
+import { STAGE_LABELS, type EnhanceProgress, type EnhanceResult, type EnhanceSettings, type SourceImage } from "@/lib/enhance";
+import { createEnhancer, isAbortError, type Enhancer } from "@/lib/enhance-client";
+import { readSourceFile, withMetadata } from "@/lib/source-file";
+import { formatFileSize } from "@/lib/file-size";
+import { sampleDisplayedImage } from "@/lib/sample-image";
+import type { CropRect } from "@/lib/crop";
+import {
+  DEFAULT_TRANSFORM_SETTINGS,
+  STRAIGHTEN_LIMIT,
+  describeTransform,
+  levelingAngle,
+  transformedResolution,
+  transformedSize,
+  type TransformSettings,
+} from "@/lib/transform";
+import { withAutoTone } from "@/lib/filters/auto-enhance";
+import { DEFAULT_COLOR_SETTINGS, neutralWhiteBalance, type ColorSettings } from "@/lib/filters/color";
+import { DEFAULT_DENOISE_SETTINGS, type DenoiseSettings } from "@/lib/filters/denoise";
+import { DOWNSCALE_STRATEGIES, RESAMPLE_FILTERS, type DownscaleStrategy, type ResampleFilter } from "@/lib/filters/resample";
+import { DEFAULT_SHARPEN_SETTINGS, type SharpenSettings } from "@/lib/filters/sharpen";
+import { DEFAULT_TONE_SETTINGS, type ToneSettings } from "@/lib/filters/tone";
+import { SUPER_RESOLUTION_SCALES, type SuperResolutionScale } from "@/lib/filters/super-resolution";
+import type { TargetSizeReport } from "@/lib/encoders/target-size";
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  defaultExportOptions,
+  formatInfo,
+  type ExportFormat,
+  type ExportOptions,
+} from "@/lib/export-format";
+import {
+  RESIZE_MODES,
+  formatPhysicalSize,
+  fromInches,
+  physicalSize,
+  toInches,
+  type LengthUnit,
+  type ResizeMode,
+} from "@/lib/print-size";
+
+// Slider drags settle quickly into a preview; other edits (typing a print
+// width, for instance) wait a little longer before a full-resolution run
+const PREVIEW_DEBOUNCE_MS = 50;
+const FULL_DEBOUNCE_MS = 200;
+
+const COLOR_SLIDERS: { key: keyof ColorSettings; label: string; min: number; max: number; unit: string }[] = [
+  { key: 'temperature', label: 'Temperature', min: -100, max: 100, unit: '' },
+  { key: 'tint', label: 'Tint', min: -100, max: 100, unit: '' },
+  { key: 'saturation', label: 'Saturation', min: -100, max: 100, unit: '' },
+  { key: 'vibrance', label: 'Vibrance', min: -100, max: 100, unit: '' },
+  { key: 'hue', label: 'Hue', min: -180, max: 180, unit: '°' },
+];
 
 interface ImageStats {
   width: number;
   height: number;
-  dpi: number;
+  dpi: Resolution;
   fileSize: number;
   format: string;
+  orientation: Orientation;
+  /** How a file size limit was met, when one was set */
+  targetSize?: TargetSizeReport;
+  /** Set when the original file was reused rather than re-encoded */
+  passthrough?: boolean;
+  /** The region of the source that was kept */
+  crop?: CropRect;
+  transform?: TransformSettings;
+  /** The resize that produced the output */
+  resampling?: EnhanceResult['resampling'];
+  superResolution?: EnhanceResult['superResolution'];
+  sharpening?: EnhanceResult['sharpening'];
 }
 
 export const ImageEnhancer = () => {
-  const [originalImage, setOriginalImage] = useState<string | null>(null);
-  const [enhancedImage, setEnhancedImage] = useState<string | null>(null);
+  const [originalFile, setOriginalFile] = useState<File | null>(null);
+  const [source, setSource] = useState<SourceImage | null>(null);
+  const [enhancedBytes, setEnhancedBytes] = useState<Uint8Array | null>(null);
+  // Stands in for enhancedBytes on screen when the output format cannot be shown there
+  const [enhancedDisplay, setEnhancedDisplay] = useState<Blob | null>(null);
   const [originalStats, setOriginalStats] = useState<ImageStats | null>(null);
   const [enhancedStats, setEnhancedStats] = useState<ImageStats | null>(null);
-  const [brightness, setBrightness] = useState([100]);
-  const [contrast, setContrast] = useState([100]);
+  const [enhancedFormat, setEnhancedFormat] = useState<ExportFormat>('jpeg');
+  const [tone, setTone] = useState<ToneSettings>(DEFAULT_TONE_SETTINGS);
+  const [color, setColor] = useState<ColorSettings>(DEFAULT_COLOR_SETTINGS);
+  const [pickingNeutral, setPickingNeutral] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [quality, setQuality] = useState([85]);
   const [targetDpi, setTargetDpi] = useState([300]);
+  const [resizeMode, setResizeMode] = useState<ResizeMode>('resample');
+  const [printWidth, setPrintWidth] = useState<number | null>(null);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [transform, setTransform] = useState<TransformSettings>(DEFAULT_TRANSFORM_SETTINGS);
+  const [drawingHorizon, setDrawingHorizon] = useState(false);
+  const [denoise, setDenoise] = useState<DenoiseSettings>(DEFAULT_DENOISE_SETTINGS);
+  const [resampleFilter, setResampleFilter] = useState<ResampleFilter>('lanczos3');
+  const [linearLight, setLinearLight] = useState(true);
+  const [downscaleStrategy, setDownscaleStrategy] = useState<DownscaleStrategy>('auto');
+  const [superResolution, setSuperResolution] = useState<SuperResolutionScale | null>(null);
+  const [sharpening, setSharpening] = useState<SharpenSettings>(DEFAULT_SHARPEN_SETTINGS);
+  const [lengthUnit, setLengthUnit] = useState<LengthUnit>('in');
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [sourceMetadata, setSourceMetadata] = useState<ImageMetadata>(EMPTY_METADATA);
+  const [metadataPolicy, setMetadataPolicy] = useState<MetadataPolicy>('keep-all');
+  const [metadataEdits, setMetadataEdits] = useState<MetadataEdits>({});
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState<EnhanceProgress | null>(null);
+  // True while a slider is being dragged; runs are then quick low-resolution previews
+  const [isAdjusting, setIsAdjusting] = useState(false);
+  const [previewBlob, setPreviewBlob] = useState<Blob | null>(null);
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const newImageInputRef = useRef<HTMLInputElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-
-  const calculateDPI = (width: number, height: number, fileSizeBytes: number): number => {
-    // Estimate DPI based on image dimensions and file size
-    // This is an approximation - real DPI would need EXIF data
-    const totalPixels = width * height;
-    const bytesPerPixel = fileSizeBytes / totalPixels;
-    
-    // Higher quality images typically have higher DPI
-    if (bytesPerPixel > 3) return 300; // High quality
-    if (bytesPerPixel > 1.5) return 150; // Medium quality
-    return 72; // Web standard
-  };
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const enhancerRef = useRef<Enhancer | null>(null);
+  const analysisRef = useRef<AbortController | null>(null);
 
-  const getImageStats = (img: HTMLImageElement, fileSize: number): ImageStats => {
-    return {
-      width: img.naturalWidth,
-      height: img.naturalHeight,
-      dpi: calculateDPI(img.naturalWidth, img.naturalHeight, fileSize),
-      fileSize,
-      format: 'JPEG'
+  useEffect(() => {
+    let enhancer: Enhancer;
+    try {
+      enhancer = createEnhancer();
+    } catch {
+      toast.error('This browser cannot run image processing in the background');
+      return;
+    }
+    enhancerRef.current = enhancer;
+    return () => {
+      enhancerRef.current = null;
+      enhancer.dispose();
     };
+  }, []);
+
+  const originalUrl = useObjectUrl(originalFile);
+  const previewUrl = useObjectUrl(previewBlob);
+  const enhancedBlob = useMemo(
+    () => enhancedDisplay ?? (enhancedBytes ? new Blob([enhancedBytes], { type: formatInfo(enhancedFormat).mimeType }) : null),
+    [enhancedBytes, enhancedDisplay, enhancedFormat],
+  );
+  const enhancedUrl = useObjectUrl(enhancedBlob);
+  const originalHistogram = useHistogram(originalUrl);
+  // Previews count too, so the histogram follows a slider while it is dragged
+  const enhancedHistogram = useHistogram(previewUrl ?? enhancedUrl);
+
+  // The settings every image is processed with, the preview and batch alike
+  const enhanceSettings = useMemo<EnhanceSettings>(() => ({
+    tone,
+    color,
+    quality: quality[0],
+    targetDpi: targetDpi[0],
+    resizeMode,
+    crop,
+    transform,
+    printWidth,
+    denoise,
+    resampling: { filter: resampleFilter, linear: linearLight, downscale: downscaleStrategy },
+    superResolution,
+    sharpening,
+    output: exportOptions,
+  }), [tone, color, quality, targetDpi, resizeMode, crop, transform, printWidth, denoise, resampleFilter, linearLight, downscaleStrategy, superResolution, sharpening, exportOptions]);
+
+  // The picture as cropped and turned, which print sizes refer to; the worker sizes its output the same way
+  const shaped = originalStats && {
+    ...transformedSize(crop?.width ?? originalStats.width, crop?.height ?? originalStats.height, transform),
+    dpi: transformedResolution(originalStats.dpi, transform),
   };
 
-  const processImage = useCallback((imageUrl: string, fileSize: number) => {
-    const img = new Image();
-    img.onload = () => {
-      setOriginalStats(getImageStats(img, fileSize));
-      
-      // Calculate new dimensions for target DPI
-      const originalDpi = calculateDPI(img.naturalWidth, img.naturalHeight, fileSize);
-      const scaleFactor = targetDpi[0] / originalDpi;
-      const newWidth = Math.round(img.naturalWidth * scaleFactor);
-      const newHeight = Math.round(img.naturalHeight * scaleFactor);
-      
-      // Apply enhancements
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-      
-      canvas.width = newWidth;
-      canvas.height = newHeight;
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-      
-      // Apply filters and scale image
-      ctx.filter = `brightness(${brightness[0]}%) contrast(${contrast[0]}%)`;
-      ctx.imageSmoothingEnabled = true;
-      ctx.imageSmoothingQuality = 'high';
-      ctx.drawImage(img, 0, 0, newWidth, newHeight);
-      
-      // Convert to JPEG with specified quality
-      const enhancedDataUrl = canvas.toDataURL('image/jpeg', quality[0] / 100);
-      setEnhancedImage(enhancedDataUrl);
-      
-      // Calculate enhanced image stats
-      const enhancedSize = Math.round((enhancedDataUrl.length - 'data:image/jpeg;base64,'.length) * 0.75);
-      setEnhancedStats({
-        width: newWidth,
-        height: newHeight,
-        dpi: targetDpi[0],
-        fileSize: enhancedSize,
-        format: 'JPEG'
+  // Re-process whenever the source or any setting changes. Each run captures
+  // the full settings object, and a newer run aborts the one before it, so a
+  // result is only ever shown for the settings that produced it.
+  useEffect(() => {
+    if (!source) return;
+    const preview = isAdjusting;
+    const job = new AbortController();
+    setIsProcessing(true);
+    setProgress(null);
+
+    const timer = window.setTimeout(() => {
+      // Gone if the worker could not start or the component has unmounted
+      const enhancer = enhancerRef.current;
+      if (!enhancer) {
+        setIsProcessing(false);
+        return;
+      }
+      enhancer.enhance(source, enhanceSettings, {
+        preview,
+        signal: job.signal,
+        onProgress: setProgress,
+      }).then((result) => {
+        const { bytes, targetSize } = result;
+        setOriginalStats({
+          width: result.sourceWidth,
+          height: result.sourceHeight,
+          dpi: source.dpi,
+          fileSize: source.fileSize,
+          format: source.format.label,
+          orientation: source.orientation
+        });
+        // Previews only stand in for the picture; stats and download wait for the full pass
+        if (preview) {
+          setPreviewBlob(new Blob([result.bytes], { type: source.format.hasAlpha ? 'image/png' : 'image/jpeg' }));
+          setIsProcessing(false);
+          return;
+        }
+
+        const output = formatInfo(enhanceSettings.output.format);
+        setEnhancedBytes(bytes);
+        setEnhancedDisplay(result.display ?? null);
+        setPreviewBlob(null);
+        setEnhancedFormat(output.value);
+        
+        // Read the density back from the output so the stats show what the file declares
+        setEnhancedStats({
+          width: result.width,
+          height: result.height,
+          dpi: readResolution(bytes),
+          fileSize: bytes.length,
+          format: output.label,
+          orientation: 1,
+          targetSize,
+          passthrough: result.passthrough,
+          crop: result.crop,
+          transform: result.transform,
+          resampling: result.resampling,
+          superResolution: result.superResolution,
+          sharpening: result.sharpening
+        });
+        
+        setIsProcessing(false);
+        if (result.superResolution?.fallback) {
+          toast.warning('The AI upscale model could not be loaded; enlarged with Lanczos-3 instead');
+        } else if (targetSize && !targetSize.met) {
+          toast.warning(`Could not get under ${formatFileSize(targetSize.maxBytes)}; showing the smallest result`);
+        } else {
+          toast.success("Image enhanced successfully!");
+        }
+      }).catch((error: Error) => {
+        // A superseded job leaves the progress display to its replacement
+        if (isAbortError(error)) return;
+        setIsProcessing(false);
+        toast.error(error.message);
       });
-      
-      setIsProcessing(false);
-      toast.success("Image enhanced successfully!");
+    }, preview ? PREVIEW_DEBOUNCE_MS : FULL_DEBOUNCE_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      job.abort();
     };
-    img.src = imageUrl;
-  }, [brightness, contrast, quality, targetDpi]);
+  }, [source, enhanceSettings, isAdjusting]);
 
-  const handleFileSelect = (file: File) => {
-    if (!file.type.startsWith('image/')) {
-      toast.error("Please select an image file");
+  // Suggestions for the previous image must not land on the next one
+  useEffect(() => () => analysisRef.current?.abort(), [source]);
+
+  // Samples what is on screen, so the correction is relative to the current white balance
+  const handleNeutralPick = (image: HTMLImageElement, clientX: number, clientY: number) => {
+    const sample = sampleDisplayedImage(image, clientX, clientY);
+    if (!sample) return;
+    if (Math.max(...sample) >= 250 || Math.max(...sample) < 10) {
+      toast.warning('Pick a mid-tone gray; that spot is clipped or too dark to judge');
       return;
     }
+    setColor((current) => ({ ...current, ...neutralWhiteBalance(sample, current) }));
+    setPickingNeutral(false);
+  };
+
+  // Fills the sliders with values worked out from the image; everything stays adjustable afterwards
+  const handleAutoEnhance = () => {
+    if (!source || !enhancerRef.current) return;
+    const job = new AbortController();
+    analysisRef.current?.abort();
+    analysisRef.current = job;
+    setIsAnalyzing(true);
+    // Only the part that will be exported counts, so a crop or turn made first shapes the result
+    enhancerRef.current.analyze(source, { crop, transform }, { signal: job.signal }).then((analysis) => {
+      setTone((current) => withAutoTone(current, analysis.tone));
+      setColor((current) => ({ ...current, temperature: analysis.color.temperature, tint: analysis.color.tint }));
+      setSharpening(analysis.sharpening);
+      toast.success('Auto adjustments applied; fine-tune them with the sliders');
+    }).catch((error: Error) => {
+      if (!isAbortError(error)) toast.error(error.message);
+    }).finally(() => {
+      if (analysisRef.current === job) setIsAnalyzing(false);
+    });
+  };
+
+  // The line is drawn on the result, so its tilt adds to the straightening already applied
+  const handleHorizon = (dx: number, dy: number) => {
+    setTransform((current) => {
+      const straighten = Math.round((current.straighten + levelingAngle(dx, dy)) * 10) / 10;
+      return { ...current, straighten: Math.min(STRAIGHTEN_LIMIT, Math.max(-STRAIGHTEN_LIMIT, straighten)) };
+    });
+    setDrawingHorizon(false);
+  };
 
+  const handleFileSelect = (file: File) => {
     setIsProcessing(true);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const imageUrl = e.target?.result as string;
-      setOriginalImage(imageUrl);
-      processImage(imageUrl, file.size);
-    };
-    reader.readAsDataURL(file);
+    readSourceFile(file).then(({ source: loaded, metadata }) => {
+      // Keep the user's size limit across uploads; it usually comes from a fixed CMS rule
+      const output = {
+        ...defaultExportOptions(loaded.format),
+        maxFileSize: exportOptions.maxFileSize,
+        allowDownscale: exportOptions.allowDownscale,
+        keepOriginalEncoding: exportOptions.keepOriginalEncoding,
+      };
+      setSourceMetadata(metadata);
+      setMetadataEdits({});
+      setOriginalFile(file);
+      // Results of the previous file would sit misleadingly next to the new one
+      setEnhancedBytes(null);
+      setEnhancedDisplay(null);
+      setPreviewBlob(null);
+      setEnhancedStats(null);
+      setSource(loaded);
+      setExportOptions(output);
+      setPrintWidth(null);
+      setCrop(null);
+      setTransform(DEFAULT_TRANSFORM_SETTINGS);
+    }).catch((error: Error) => {
+      setIsProcessing(false);
+      toast.error(error.message);
+    });
+  };
+
+  // A single file goes straight to the editor and replaces any batch queue;
+  // several fill the queue, with the first one loaded as the preview for tuning settings
+  const handleFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    handleFileSelect(files[0]);
+    setBatchFiles(files.length > 1 ? files : []);
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -128,32 +374,35 @@ export const ImageEnhancer = () => {
     e.preventDefault();
     setIsDragging(false);
     
-    const files = Array.from(e.dataTransfer.files);
-    if (files.length > 0) {
-      handleFileSelect(files[0]);
-    }
+    collectDroppedFiles(e.dataTransfer).then(handleFiles).catch(() => {
+      toast.error("Could not read the dropped files");
+    });
   };
 
   const handleDownload = () => {
-    if (!enhancedImage) return;
+    if (!enhancedBytes || !enhancedStats) return;
+    
+    const { width, height, dpi } = enhancedStats;
+    const bytes = withMetadata(enhancedBytes, sourceMetadata, {
+      policy: metadataPolicy,
+      edits: metadataEdits,
+      width,
+      height,
+      dpi,
+    });
     
+    const output = formatInfo(enhancedFormat);
     const link = document.createElement('a');
-    link.href = enhancedImage;
-    link.download = 'enhanced-image.jpg';
+    const url = URL.createObjectURL(new Blob([bytes], { type: output.mimeType }));
+    link.href = url;
+    link.download = `enhanced-image.${output.extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
     toast.success("Image downloaded!");
   };
 
-  // Re-process when settings change
-  const handleEnhancementChange = () => {
-    if (originalImage) {
-      setIsProcessing(true);
-      processImage(originalImage, originalStats?.fileSize || 0);
-    }
-  };
-
   return (
     <div className="min-h-screen bg-background p-6">
       <div className="max-w-7xl mx-auto">
@@ -162,7 +411,7 @@ export const ImageEnhancer = () => {
           <p className="text-muted-foreground text-lg">Enhance, compress, and optimize your images with DPI calculation</p>
         </header>
 
-        {!originalImage ? (
+        {!originalUrl ? (
           <Card className="border-2 border-dashed border-border bg-surface/50 p-12 text-center transition-colors hover:bg-surface-hover">
             <div
               className={`transition-colors ${isDragging ? 'text-primary' : ''}`}
@@ -171,20 +420,32 @@ export const ImageEnhancer = () => {
               onDrop={handleDrop}
             >
               <Upload className={`mx-auto mb-4 h-16 w-16 ${isDragging ? 'text-primary' : 'text-muted-foreground'}`} />
-              <h3 className="text-xl font-semibold mb-2">Upload your image</h3>
-              <p className="text-muted-foreground mb-6">Drag and drop an image here, or click to select</p>
-              <Button
-                onClick={() => fileInputRef.current?.click()}
-                className="bg-primary hover:bg-primary-hover text-primary-foreground"
-              >
-                <ImageIcon className="mr-2 h-4 w-4" />
-                Select Image
-              </Button>
+              <h3 className="text-xl font-semibold mb-2">Upload your images</h3>
+              <p className="text-muted-foreground mb-6">
+                Drag and drop images or folders here, or click to select. Several images are processed as a batch.
+              </p>
+              <div className="flex justify-center gap-2">
+                <Button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="bg-primary hover:bg-primary-hover text-primary-foreground"
+                >
+                  <ImageIcon className="mr-2 h-4 w-4" />
+                  Select Images
+                </Button>
+                <Button onClick={() => folderInputRef.current?.click()} variant="secondary">
+                  <FolderOpen className="mr-2 h-4 w-4" />
+                  Select Folder
+                </Button>
+              </div>
               <input
                 ref={fileInputRef}
                 type="file"
                 accept="image/*"
-                onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
+                multiple
+                onChange={(e) => {
+                  handleFiles(inputFiles(e.target.files));
+                  e.target.value = '';
+                }}
                 className="hidden"
               />
             </div>
@@ -193,16 +454,36 @@ export const ImageEnhancer = () => {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Image Comparison */}
             <div className="lg:col-span-2 space-y-6">
+              <ComparisonViewer
+                beforeUrl={originalUrl}
+                afterUrl={previewUrl ?? enhancedUrl}
+                size={enhancedStats}
+                beforeCrop={crop}
+                beforeTransform={transform}
+                badge={previewUrl && <span className="ml-2 text-xs font-normal text-muted-foreground">Preview</span>}
+                picking={pickingNeutral}
+                onPick={handleNeutralPick}
+                drawingLine={drawingHorizon}
+                onLine={handleHorizon}
+                overlay={
+                  // The last result stays visible underneath while the next one is worked on
+                  isProcessing && (
+                    <div className="absolute inset-x-0 bottom-0 rounded-b-lg bg-background/80 px-4 py-2 space-y-1">
+                      <Progress value={(progress?.fraction ?? 0) * 100} className="h-2" />
+                      <span className="block text-sm text-muted-foreground">
+                        {progress ? `${STAGE_LABELS[progress.stage]}… ${Math.round(progress.fraction * 100)}%` : 'Starting…'}
+                      </span>
+                    </div>
+                  )
+                }
+              />
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {/* Original Image */}
                 <Card className="p-6">
                   <h3 className="text-lg font-semibold mb-4">Original</h3>
-                  <div className="aspect-square bg-surface rounded-lg overflow-hidden mb-4">
-                    <img
-                      src={originalImage}
-                      alt="Original"
-                      className="w-full h-full object-cover"
-                    />
+                  <div className="mb-4">
+                    <HistogramView histogram={originalHistogram} />
                   </div>
                   {originalStats && (
                     <div className="space-y-2 text-sm text-muted-foreground">
@@ -210,33 +491,73 @@ export const ImageEnhancer = () => {
                         <span>Dimensions:</span>
                         <span>{originalStats.width} × {originalStats.height}</span>
                       </div>
+                      <div className="flex justify-between">
+                        <span>Format:</span>
+                        <span>
+                          {originalStats.format}
+                          {source && source.format.lossless !== null && (source.format.lossless ? ' (lossless)' : ' (lossy)')}
+                        </span>
+                      </div>
                       <div className="flex justify-between">
                         <span>DPI:</span>
-                        <span>{originalStats.dpi}</span>
+                        <span className={originalStats.dpi.estimated ? 'italic' : undefined}>
+                          {formatResolution(originalStats.dpi)}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Print size (in):</span>
+                        <span>{formatPhysicalSize(physicalSize(originalStats.width, originalStats.height, originalStats.dpi), 'in')}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Print size (cm):</span>
+                        <span>{formatPhysicalSize(physicalSize(originalStats.width, originalStats.height, originalStats.dpi), 'cm')}</span>
                       </div>
                       <div className="flex justify-between">
                         <span>Size:</span>
                         <span>{(originalStats.fileSize / 1024).toFixed(1)} KB</span>
                       </div>
+                      {originalStats.orientation !== 1 && (
+                        <div className="flex justify-between">
+                          <span>Orientation:</span>
+                          <span>{ORIENTATION_LABELS[originalStats.orientation]} (corrected)</span>
+                        </div>
+                      )}
+                      {source && source.format.bitDepth !== null && (
+                        <div className="flex justify-between">
+                          <span>Bit depth:</span>
+                          <span>{source.format.bitDepth}-bit</span>
+                        </div>
+                      )}
+                      {source?.format.colorType && (
+                        <div className="flex justify-between">
+                          <span>Color:</span>
+                          <span>{source.format.colorType}</span>
+                        </div>
+                      )}
+                      {source && source.format.hasAlpha !== null && (
+                        <div className="flex justify-between">
+                          <span>Alpha:</span>
+                          <span>{source.format.hasAlpha ? 'Yes' : 'No'}</span>
+                        </div>
+                      )}
+                      {source && describeScan(source.format) && (
+                        <div className="flex justify-between">
+                          <span>Scan:</span>
+                          <span>{describeScan(source.format)}</span>
+                        </div>
+                      )}
                     </div>
                   )}
                 </Card>
 
                 {/* Enhanced Image */}
                 <Card className="p-6">
-                  <h3 className="text-lg font-semibold mb-4">Enhanced</h3>
-                  <div className="aspect-square bg-surface rounded-lg overflow-hidden mb-4">
-                    {isProcessing ? (
-                      <div className="w-full h-full flex items-center justify-center">
-                        <Zap className="h-8 w-8 text-primary animate-pulse" />
-                      </div>
-                    ) : enhancedImage ? (
-                      <img
-                        src={enhancedImage}
-                        alt="Enhanced"
-                        className="w-full h-full object-cover"
-                      />
-                    ) : null}
+                  <h3 className="text-lg font-semibold mb-4">
+                    Enhanced
+                    {previewUrl && <span className="ml-2 text-xs font-normal text-muted-foreground">Preview</span>}
+                  </h3>
+                  <div className="mb-4">
+                    <HistogramView histogram={enhancedHistogram} />
                   </div>
                   {enhancedStats && (
                     <div className="space-y-2 text-sm text-muted-foreground">
@@ -244,14 +565,88 @@ export const ImageEnhancer = () => {
                         <span>Dimensions:</span>
                         <span>{enhancedStats.width} × {enhancedStats.height}</span>
                       </div>
+                      <div className="flex justify-between">
+                        <span>Format:</span>
+                        <span>{enhancedStats.format}</span>
+                      </div>
                       <div className="flex justify-between">
                         <span>DPI:</span>
-                        <span>{enhancedStats.dpi}</span>
+                        <span>{formatResolution(enhancedStats.dpi)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Print size (in):</span>
+                        <span>{formatPhysicalSize(physicalSize(enhancedStats.width, enhancedStats.height, enhancedStats.dpi), 'in')}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Print size (cm):</span>
+                        <span>{formatPhysicalSize(physicalSize(enhancedStats.width, enhancedStats.height, enhancedStats.dpi), 'cm')}</span>
                       </div>
                       <div className="flex justify-between">
                         <span>Size:</span>
                         <span>{(enhancedStats.fileSize / 1024).toFixed(1)} KB</span>
                       </div>
+                      {enhancedStats.passthrough && (
+                        <div className="flex justify-between">
+                          <span>Encoding:</span>
+                          <span>Original kept, not recompressed</span>
+                        </div>
+                      )}
+                      {enhancedStats.resampling && (
+                        <div className="flex justify-between">
+                          <span>Resampling:</span>
+                          <span>
+                            {RESAMPLE_FILTERS.find((filter) => filter.value === enhancedStats.resampling.filter)?.label}
+                            {`, ${DOWNSCALE_STRATEGIES.find((strategy) => strategy.value === enhancedStats.resampling.strategy)?.label.toLowerCase()}`}
+                            {`, ${enhancedStats.resampling.passes} ${enhancedStats.resampling.passes === 1 ? 'pass' : 'passes'}`}
+                            {`, ${Math.round(enhancedStats.resampling.milliseconds)} ms`}
+                          </span>
+                        </div>
+                      )}
+                      {enhancedStats.superResolution && (
+                        <div className="flex justify-between">
+                          <span>AI upscale:</span>
+                          <span className={enhancedStats.superResolution.fallback ? 'text-destructive' : undefined}>
+                            {enhancedStats.superResolution.fallback
+                              ? 'Model unavailable, used Lanczos-3'
+                              : `${enhancedStats.superResolution.scale}× model`}
+                          </span>
+                        </div>
+                      )}
+                      {enhancedStats.crop && (
+                        <div className="flex justify-between">
+                          <span>Crop:</span>
+                          <span>
+                            {enhancedStats.crop.width} × {enhancedStats.crop.height} at {enhancedStats.crop.x}, {enhancedStats.crop.y}
+                          </span>
+                        </div>
+                      )}
+                      {enhancedStats.transform && (
+                        <div className="flex justify-between">
+                          <span>Geometry:</span>
+                          <span>{describeTransform(enhancedStats.transform)}</span>
+                        </div>
+                      )}
+                      {enhancedStats.sharpening && (
+                        <div className="flex justify-between">
+                          <span>Sharpening:</span>
+                          <span>
+                            {`${enhancedStats.sharpening.amount}%, ${enhancedStats.sharpening.radius.toFixed(1)} px`}
+                            {enhancedStats.sharpening.threshold > 0 && `, threshold ${enhancedStats.sharpening.threshold}`}
+                            {enhancedStats.sharpening.edgeAware && ', edge-aware'}
+                          </span>
+                        </div>
+                      )}
+                      {enhancedStats.targetSize && (
+                        <div className="flex justify-between">
+                          <span>Size limit:</span>
+                          <span className={enhancedStats.targetSize.met ? undefined : 'text-destructive'}>
+                            {enhancedStats.targetSize.met ? '≤' : '>'} {formatFileSize(enhancedStats.targetSize.maxBytes)}
+                            {enhancedStats.targetSize.quality !== null && `, quality ${enhancedStats.targetSize.quality}`}
+                            {enhancedStats.targetSize.scale < 1 && `, ${Math.round(enhancedStats.targetSize.scale * 100)}% size`}
+                            {`, ${enhancedStats.targetSize.iterations} ${enhancedStats.targetSize.iterations === 1 ? 'pass' : 'passes'}`}
+                          </span>
+                        </div>
+                      )}
                     </div>
                   )}
                 </Card>
@@ -261,109 +656,379 @@ export const ImageEnhancer = () => {
               <div className="text-center">
                 <Button
                   onClick={handleDownload}
-                  disabled={!enhancedImage || isProcessing}
+                  disabled={!enhancedBytes || isProcessing || previewBlob !== null}
                   className="bg-primary hover:bg-primary-hover text-primary-foreground px-8 py-3"
                 >
                   <Download className="mr-2 h-5 w-5" />
-                  Download Enhanced JPG
+                  Download Enhanced {formatInfo(enhancedFormat).label}
                 </Button>
               </div>
+
+              {batchFiles.length > 0 && (
+                // Crop, turns and print width are measured on the image on screen; batch files keep their own
+                <BatchPanel
+                  files={batchFiles}
+                  settings={{ ...enhanceSettings, crop: null, transform: DEFAULT_TRANSFORM_SETTINGS, printWidth: null }}
+                  metadataPolicy={metadataPolicy}
+                  metadataEdits={metadataEdits}
+                  onClear={() => setBatchFiles([])}
+                />
+              )}
+
+              <MetadataPanel
+                metadata={sourceMetadata}
+                policy={metadataPolicy}
+                onPolicyChange={setMetadataPolicy}
+                edits={metadataEdits}
+                onEditsChange={setMetadataEdits}
+              />
             </div>
 
             {/* Controls */}
-            <Card className="p-6">
-              <h3 className="text-lg font-semibold mb-6">Enhancement Controls</h3>
-              
-              <div className="space-y-6">
-                <div>
-                  <label className="text-sm font-medium mb-2 block">
-                    Brightness: {brightness[0]}%
-                  </label>
-                  <Slider
-                    value={brightness}
-                    onValueChange={(value) => {
-                      setBrightness(value);
-                      handleEnhancementChange();
-                    }}
-                    max={200}
-                    min={50}
-                    step={5}
-                    className="w-full"
-                  />
+            <div className="space-y-6">
+              <Card className="p-6">
+                <div className="flex items-center justify-between mb-6">
+                  <h3 className="text-lg font-semibold">Enhancement Controls</h3>
+                  <Button variant="outline" size="sm" onClick={handleAutoEnhance} disabled={!source || isAnalyzing}>
+                    <Wand2 className="mr-2 h-4 w-4" />
+                    {isAnalyzing ? 'Analyzing…' : 'Auto'}
+                  </Button>
                 </div>
+              
+                <div className="space-y-6">
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">
+                      Brightness: {tone.brightness}%
+                    </label>
+                    <Slider
+                      value={[tone.brightness]}
+                      onValueChange={(value) => {
+                        setTone((current) => ({ ...current, brightness: value[0] }));
+                        setIsAdjusting(true);
+                      }}
+                      onValueCommit={() => setIsAdjusting(false)}
+                      max={200}
+                      min={50}
+                      step={5}
+                      className="w-full"
+                    />
+                  </div>
 
-                <div>
-                  <label className="text-sm font-medium mb-2 block">
-                    Contrast: {contrast[0]}%
-                  </label>
-                  <Slider
-                    value={contrast}
-                    onValueChange={(value) => {
-                      setContrast(value);
-                      handleEnhancementChange();
-                    }}
-                    max={200}
-                    min={50}
-                    step={5}
-                    className="w-full"
-                  />
-                </div>
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">
+                      Contrast: {tone.contrast}%
+                    </label>
+                    <Slider
+                      value={[tone.contrast]}
+                      onValueChange={(value) => {
+                        setTone((current) => ({ ...current, contrast: value[0] }));
+                        setIsAdjusting(true);
+                      }}
+                      onValueCommit={() => setIsAdjusting(false)}
+                      max={200}
+                      min={50}
+                      step={5}
+                      className="w-full"
+                    />
+                  </div>
 
-                <div>
-                  <label className="text-sm font-medium mb-2 block">
-                    JPG Quality: {quality[0]}%
-                  </label>
-                  <Slider
-                    value={quality}
-                    onValueChange={(value) => {
-                      setQuality(value);
-                      handleEnhancementChange();
-                    }}
-                    max={100}
-                    min={10}
-                    step={5}
-                    className="w-full"
-                  />
-                </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Color</span>
+                    <Button
+                      variant={pickingNeutral ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => {
+                        setPickingNeutral(!pickingNeutral);
+                        setDrawingHorizon(false);
+                      }}
+                      disabled={!enhancedUrl && !previewUrl}
+                    >
+                      <Pipette className="mr-2 h-4 w-4" />
+                      {pickingNeutral ? 'Click a neutral gray' : 'White balance picker'}
+                    </Button>
+                  </div>
+
+                  {COLOR_SLIDERS.map(({ key, label, min, max, unit }) => (
+                    <div key={key}>
+                      <label className="text-sm font-medium mb-2 block">
+                        {label}: {color[key]}{unit}
+                      </label>
+                      <Slider
+                        value={[color[key]]}
+                        onValueChange={(value) => {
+                          setColor((current) => ({ ...current, [key]: value[0] }));
+                          setIsAdjusting(true);
+                        }}
+                        onValueCommit={() => setIsAdjusting(false)}
+                        max={max}
+                        min={min}
+                        step={1}
+                        className="w-full"
+                      />
+                    </div>
+                  ))}
+
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">DPI Mode</label>
+                    <RadioGroup
+                      value={resizeMode}
+                      onValueChange={(value) => {
+                        setResizeMode(value as ResizeMode);
+                      }}
+                    >
+                      {RESIZE_MODES.map((mode) => (
+                        <div key={mode.value} className="flex items-start gap-2">
+                          <RadioGroupItem value={mode.value} id={`resize-${mode.value}`} className="mt-0.5" />
+                          <Label htmlFor={`resize-${mode.value}`} className="font-normal">
+                            {mode.label}
+                            <span className="block text-xs text-muted-foreground mt-1">{mode.description}</span>
+                          </Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </div>
+
+                  {resizeMode === 'print-size' ? (
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">Print Width</label>
+                      <div className="flex gap-2">
+                        <Input
+                          type="number"
+                          min={0.1}
+                          step={lengthUnit === 'in' ? 0.1 : 0.5}
+                          value={Number(fromInches(printWidth ?? (shaped ? shaped.width / shaped.dpi.x : 1), lengthUnit).toFixed(2))}
+                          onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (!(value > 0)) return;
+                            setPrintWidth(toInches(value, lengthUnit));
+                          }}
+                        />
+                        <RadioGroup
+                          value={lengthUnit}
+                          onValueChange={(value) => setLengthUnit(value as LengthUnit)}
+                          className="flex items-center gap-3"
+                        >
+                          {(['in', 'cm'] as const).map((unit) => (
+                            <div key={unit} className="flex items-center gap-1">
+                              <RadioGroupItem value={unit} id={`unit-${unit}`} />
+                              <Label htmlFor={`unit-${unit}`} className="font-normal">{unit}</Label>
+                            </div>
+                          ))}
+                        </RadioGroup>
+                      </div>
+                      {enhancedStats && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Resulting density: {formatResolution(enhancedStats.dpi)} DPI
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">
+                        Target DPI: {targetDpi[0]} (for print quality)
+                      </label>
+                      <Slider
+                        value={targetDpi}
+                        onValueChange={(value) => {
+                          setTargetDpi(value);
+                          setIsAdjusting(true);
+                        }}
+                        onValueCommit={() => setIsAdjusting(false)}
+                        max={600}
+                        min={72}
+                        step={25}
+                        className="w-full"
+                      />
+                      <div className="text-xs text-muted-foreground mt-1">
+                        72 DPI: Web • 150 DPI: Good • 300 DPI: Print • 600 DPI: High-end
+                      </div>
+                      {resizeMode === 'resample' && printWidth !== null && (
+                        <div className="text-xs text-muted-foreground mt-1 flex justify-between">
+                          <span>Print width: {fromInches(printWidth, lengthUnit).toFixed(2)} {lengthUnit}</span>
+                          <button
+                            type="button"
+                            className="text-primary hover:underline"
+                            onClick={() => {
+                              setPrintWidth(null);
+                            }}
+                          >
+                            Keep original size
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
 
-                <div>
-                  <label className="text-sm font-medium mb-2 block">
-                    Target DPI: {targetDpi[0]} (for print quality)
-                  </label>
-                  <Slider
-                    value={targetDpi}
-                    onValueChange={(value) => {
-                      setTargetDpi(value);
-                      handleEnhancementChange();
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">Resampling</label>
+                    <Select value={resampleFilter} onValueChange={(value) => setResampleFilter(value as ResampleFilter)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RESAMPLE_FILTERS.map((filter) => (
+                          <SelectItem key={filter.value} value={filter.value}>
+                            {filter.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {RESAMPLE_FILTERS.find((filter) => filter.value === resampleFilter)?.description}. Used whenever the pixel count changes.
+                    </div>
+                    <div className="flex items-center justify-between mt-3">
+                      <Label htmlFor="linear-light" className="font-normal">Gamma-correct (linear light)</Label>
+                      <Switch
+                        id="linear-light"
+                        checked={linearLight}
+                        onCheckedChange={setLinearLight}
+                        disabled={resampleFilter === 'nearest'}
+                      />
+                    </div>
+                    <label className="text-sm font-medium mt-3 mb-2 block">Large reductions</label>
+                    <Select
+                      value={downscaleStrategy}
+                      onValueChange={(value) => setDownscaleStrategy(value as DownscaleStrategy)}
+                      disabled={resampleFilter === 'nearest'}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DOWNSCALE_STRATEGIES.map((strategy) => (
+                          <SelectItem key={strategy.value} value={strategy.value}>
+                            {strategy.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Shrinking by more than 2× can average pixels down first, which is faster than one pass with a wide
+                      filter. Automatic does this from 4× on, where it saves time without visible aliasing.
+                    </div>
+                    <label className="text-sm font-medium mt-3 mb-2 block">AI upscale</label>
+                    <Select
+                      value={superResolution === null ? 'off' : String(superResolution)}
+                      onValueChange={(value) => setSuperResolution(value === 'off' ? null : Number(value) as SuperResolutionScale)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="off">Off</SelectItem>
+                        {SUPER_RESOLUTION_SCALES.map((scale) => (
+                          <SelectItem key={scale} value={String(scale)}>
+                            {scale}× model
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Enlargements first run through a bundled super-resolution network on the CPU, then the filter
+                      above brings them to the exact size. Much slower than a filter; previews skip it.
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={() => newImageInputRef.current?.click()}
+                      variant="secondary"
+                      className="flex-1"
+                    >
+                      <Upload className="mr-2 h-4 w-4" />
+                      Upload New Images
+                    </Button>
+                    <Button
+                      onClick={() => folderInputRef.current?.click()}
+                      variant="secondary"
+                      size="icon"
+                      title="Upload a folder"
+                    >
+                      <FolderOpen className="h-4 w-4" />
+                    </Button>
+                  </div>
+                
+                  <input
+                    ref={newImageInputRef}
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    onChange={(e) => {
+                      handleFiles(inputFiles(e.target.files));
+                      e.target.value = '';
                     }}
-                    max={600}
-                    min={72}
-                    step={25}
-                    className="w-full"
+                    className="hidden"
                   />
-                  <div className="text-xs text-muted-foreground mt-1">
-                    72 DPI: Web • 150 DPI: Good • 300 DPI: Print • 600 DPI: High-end
-                  </div>
                 </div>
+              </Card>
 
-                <Button
-                  onClick={() => newImageInputRef.current?.click()}
-                  variant="secondary"
-                  className="w-full"
-                >
-                  <Upload className="mr-2 h-4 w-4" />
-                  Upload New Image
-                </Button>
-                
-                <input
-                  ref={newImageInputRef}
-                  type="file"
-                  accept="image/*"
-                  onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
-                  className="hidden"
+              {originalUrl && originalStats && (
+                <CropPanel
+                  // A new image starts unconstrained, in its own orientation; its size arrives with the first result
+                  key={`${originalUrl}:${originalStats.width}x${originalStats.height}`}
+                  imageUrl={originalUrl}
+                  width={originalStats.width}
+                  height={originalStats.height}
+                  dpi={originalStats.dpi}
+                  targetDpi={targetDpi[0]}
+                  quarterTurned={transform.rotate % 2 === 1}
+                  crop={crop}
+                  onCropChange={setCrop}
+                  onPrintWidthChange={(printWidthIn) => {
+                    setPrintWidth(printWidthIn);
+                    setResizeMode('resample');
+                  }}
+                  onAdjustingChange={setIsAdjusting}
                 />
-              </div>
-            </Card>
+              )}
+
+              <TransformPanel
+                settings={transform}
+                onSettingsChange={setTransform}
+                drawingHorizon={drawingHorizon}
+                onDrawingHorizonChange={(drawing) => {
+                  setDrawingHorizon(drawing);
+                  setPickingNeutral(false);
+                }}
+                onAdjustingChange={setIsAdjusting}
+              />
+
+              <TonePanel settings={tone} onSettingsChange={setTone} onAdjustingChange={setIsAdjusting} />
+
+              <NoiseReductionPanel
+                settings={denoise}
+                onSettingsChange={setDenoise}
+                isJpeg={source?.format.format === 'jpeg'}
+                onAdjustingChange={setIsAdjusting}
+              />
+
+              <SharpeningPanel
+                settings={sharpening}
+                onSettingsChange={setSharpening}
+                dpi={targetDpi[0]}
+                onAdjustingChange={setIsAdjusting}
+              />
+
+              <ExportFormatPanel
+                options={exportOptions}
+                onOptionsChange={setExportOptions}
+                quality={quality}
+                onQualityChange={setQuality}
+                onAdjustingChange={setIsAdjusting}
+              />
+
+              {shaped && (
+                <PrintSizePanel
+                  width={shaped.width}
+                  height={shaped.height}
+                  targetDpi={targetDpi[0]}
+                  onApply={(printWidthIn) => {
+                    setPrintWidth(printWidthIn);
+                    setResizeMode('resample');
+                  }}
+                />
+              )}
+            </div>
           </div>
         )}
 
@@ -382,7 +1047,7 @@ export const ImageEnhancer = () => {
               <ul className="list-disc pl-6 space-y-2">
                 <li><strong>Smart DPI Adjustment:</strong> Optimize images for web (72 DPI) or print quality (300-600 DPI) with intelligent scaling algorithms</li>
                 <li><strong>Advanced Compression:</strong> Reduce file sizes while maintaining visual quality using optimized JPEG compression</li>
-                <li><strong>Real-time Enhancement:</strong> Adjust brightness, contrast, and quality with instant preview capabilities</li>
+                <li><strong>Real-time Enhancement:</strong> Adjust exposure, levels, curves and quality with instant preview capabilities</li>
                 <li><strong>Professional Output:</strong> Download high-quality enhanced images ready for any application</li>
                 <li><strong>Easy-to-Use Interface:</strong> Drag-and-drop functionality with intuitive controls for seamless workflow</li>
                 <li><strong>Free Tool:</strong> Access professional image enhancement features without watermarks or limitations</li>
@@ -465,7 +1130,17 @@ export const ImageEnhancer = () => {
           </Card>
         </section>
 
-        <canvas ref={canvasRef} className="hidden" />
+        {/* Shared by both folder buttons; webkitdirectory is missing from React's input typings */}
+        <input
+          ref={folderInputRef}
+          type="file"
+          {...{ webkitdirectory: '' }}
+          onChange={(e) => {
+            handleFiles(inputFiles(e.target.files));
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
       </div>
     </div>
   );
@@ -0,0 +1,100 @@
+import { useMemo } from "react";
+import { FileText, MapPin } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { listMetadata, readOwnership, type ImageMetadata } from "@/lib/metadata/extract";
+import { METADATA_POLICIES, type MetadataEdits, type MetadataPolicy } from "@/lib/metadata/policy";
+
+interface MetadataPanelProps {
+  metadata: ImageMetadata;
+  policy: MetadataPolicy;
+  onPolicyChange: (policy: MetadataPolicy) => void;
+  edits: MetadataEdits;
+  onEditsChange: (edits: MetadataEdits) => void;
+}
+
+export const MetadataPanel = ({ metadata, policy, onPolicyChange, edits, onEditsChange }: MetadataPanelProps) => {
+  const fields = useMemo(() => listMetadata(metadata), [metadata]);
+  const ownership = useMemo(() => readOwnership(metadata), [metadata]);
+  const hasGps = fields.some((field) => field.group === 'GPS');
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <FileText className="h-5 w-5 text-primary" />
+        Metadata
+        {hasGps && (
+          <Badge variant="destructive" className="gap-1">
+            <MapPin className="h-3 w-3" />
+            Contains location
+          </Badge>
+        )}
+      </h3>
+
+      {fields.length > 0 ? (
+        <ScrollArea className="h-64 mb-6 rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-20">Group</TableHead>
+                <TableHead>Tag</TableHead>
+                <TableHead>Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {fields.map((field, i) => (
+                <TableRow key={`${field.group}-${field.name}-${i}`}>
+                  <TableCell>
+                    <Badge variant={field.group === 'GPS' ? 'destructive' : 'secondary'}>{field.group}</Badge>
+                  </TableCell>
+                  <TableCell className="font-medium">{field.name}</TableCell>
+                  <TableCell className="text-muted-foreground break-all">{field.value}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      ) : (
+        <p className="text-sm text-muted-foreground mb-6">No EXIF, XMP or IPTC metadata found in the original file.</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="text-sm font-medium mb-2 block">On download</label>
+          <Select value={policy} onValueChange={(value) => onPolicyChange(value as MetadataPolicy)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {METADATA_POLICIES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="text-sm font-medium mb-2 block">Author</label>
+          <Input
+            value={edits.author ?? ownership.author}
+            disabled={policy === 'strip-all'}
+            onChange={(e) => onEditsChange({ ...edits, author: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="text-sm font-medium mb-2 block">Copyright</label>
+          <Input
+            value={edits.copyright ?? ownership.copyright}
+            disabled={policy === 'strip-all'}
+            onChange={(e) => onEditsChange({ ...edits, copyright: e.target.value })}
+          />
+        </div>
+      </div>
+    </Card>
+  );
+};
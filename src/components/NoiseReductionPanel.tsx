@@ -0,0 +1,80 @@
+import { Eraser } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import type { DenoiseSettings } from "@/lib/filters/denoise";
+
+interface NoiseReductionPanelProps {
+  settings: DenoiseSettings;
+  onSettingsChange: (settings: DenoiseSettings) => void;
+  /** Deblocking only applies to JPEG sources, which have the 8×8 grid */
+  isJpeg: boolean;
+  /** Told when a slider drag starts and ends, so the preview can stay light meanwhile */
+  onAdjustingChange?: (adjusting: boolean) => void;
+}
+
+export const NoiseReductionPanel = ({ settings, onSettingsChange, isJpeg, onAdjustingChange }: NoiseReductionPanelProps) => {
+  const update = (patch: Partial<DenoiseSettings>) => onSettingsChange({ ...settings, ...patch });
+  const adjust = (patch: Partial<DenoiseSettings>) => {
+    update(patch);
+    onAdjustingChange?.(true);
+  };
+  const commit = () => onAdjustingChange?.(false);
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-6 flex items-center gap-2">
+        <Eraser className="h-5 w-5 text-primary" />
+        Noise Reduction
+      </h3>
+
+      <div className="space-y-6">
+        <div>
+          <label className="text-sm font-medium mb-2 block">Luminance: {settings.luma}</label>
+          <Slider
+            value={[settings.luma]}
+            onValueChange={(value) => adjust({ luma: value[0] })}
+            onValueCommit={commit}
+            max={100}
+            min={0}
+            step={5}
+            className="w-full"
+          />
+          <p className="text-xs text-muted-foreground mt-1">Smooths grain while keeping edges</p>
+        </div>
+
+        <div>
+          <label className="text-sm font-medium mb-2 block">Color: {settings.chroma}</label>
+          <Slider
+            value={[settings.chroma]}
+            onValueChange={(value) => adjust({ chroma: value[0] })}
+            onValueCommit={commit}
+            max={100}
+            min={0}
+            step={5}
+            className="w-full"
+          />
+          <p className="text-xs text-muted-foreground mt-1">Removes colored blotches, common in low-light photos</p>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="deblock">Remove JPEG blocking</Label>
+            <Switch
+              id="deblock"
+              checked={settings.deblock && isJpeg}
+              onCheckedChange={(checked) => update({ deblock: checked })}
+              disabled={!isJpeg}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {isJpeg
+              ? 'Softens the 8×8 block edges of heavily compressed JPEGs. Previews skip it; the full render shows it.'
+              : 'Only JPEG sources have compression blocks.'}
+          </p>
+        </div>
+      </div>
+    </Card>
+  );
+};
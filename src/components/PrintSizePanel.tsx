@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { AlertTriangle, Printer } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  MINIMUM_PRINT_DPI,
+  PAPER_SIZES,
+  RECOMMENDED_PRINT_DPI,
+  fitToPaper,
+  paperToInches,
+  type PaperSize,
+  type PaperUnit,
+} from "@/lib/paper-sizes";
+import { CM_PER_INCH } from "@/lib/print-size";
+
+interface PrintSizePanelProps {
+  width: number;
+  height: number;
+  targetDpi: number;
+  /** Called with the fitted print width in inches when the user applies a paper size */
+  onApply: (printWidthIn: number) => void;
+}
+
+const REFERENCE_DPIS = [150, 300, 600];
+const PAPER_GROUPS: PaperSize['group'][] = ['ISO', 'US', 'Photo', 'Poster'];
+
+const formatInches = (inches: number) => `${inches.toFixed(1)} in`;
+const formatCm = (inches: number) => `${(inches * CM_PER_INCH).toFixed(1)} cm`;
+
+export const PrintSizePanel = ({ width, height, targetDpi, onApply }: PrintSizePanelProps) => {
+  const [paperId, setPaperId] = useState('a4');
+  const [customWidth, setCustomWidth] = useState(210);
+  const [customHeight, setCustomHeight] = useState(297);
+  const [customUnit, setCustomUnit] = useState<PaperUnit>('mm');
+
+  const paper = PAPER_SIZES.find((p) => p.id === paperId);
+  const paperWidthIn = paper ? paperToInches(paper.width, paper.unit) : paperToInches(customWidth, customUnit);
+  const paperHeightIn = paper ? paperToInches(paper.height, paper.unit) : paperToInches(customHeight, customUnit);
+  const fit = paperWidthIn > 0 && paperHeightIn > 0 ? fitToPaper(width, height, paperWidthIn, paperHeightIn) : null;
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Printer className="h-5 w-5 text-primary" />
+        Print Size Calculator
+      </h3>
+
+      <div className="space-y-6 text-sm">
+        <div>
+          <div className="font-medium mb-2">Maximum print size</div>
+          <div className="space-y-1 text-muted-foreground">
+            {REFERENCE_DPIS.map((dpi) => (
+              <div key={dpi} className="flex justify-between">
+                <span>{dpi} DPI:</span>
+                <span>
+                  {formatInches(width / dpi)} × {formatInches(height / dpi)}
+                  <span className="block text-xs text-right">
+                    {formatCm(width / dpi)} × {formatCm(height / dpi)}
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="font-medium mb-2 block">Target Paper</label>
+          <Select value={paperId} onValueChange={setPaperId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAPER_GROUPS.map((group) => (
+                <SelectGroup key={group}>
+                  <SelectLabel>{group}</SelectLabel>
+                  {PAPER_SIZES.filter((p) => p.group === group).map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              ))}
+              <SelectItem value="custom">Custom…</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {paperId === 'custom' && (
+            <div className="flex gap-2 mt-2 items-center">
+              <Input
+                type="number"
+                min={1}
+                value={customWidth}
+                onChange={(e) => setCustomWidth(parseFloat(e.target.value) || 0)}
+                aria-label="Paper width"
+              />
+              <span>×</span>
+              <Input
+                type="number"
+                min={1}
+                value={customHeight}
+                onChange={(e) => setCustomHeight(parseFloat(e.target.value) || 0)}
+                aria-label="Paper height"
+              />
+              <Select value={customUnit} onValueChange={(value) => setCustomUnit(value as PaperUnit)}>
+                <SelectTrigger className="w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mm">mm</SelectItem>
+                  <SelectItem value="in">in</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {fit && (
+          <div className="space-y-2">
+            <div className="space-y-1 text-muted-foreground">
+              <div className="flex justify-between">
+                <span>Printed size:</span>
+                <span>{formatInches(fit.printWidthIn)} × {formatInches(fit.printHeightIn)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Effective DPI:</span>
+                <span className="font-medium text-foreground">{Math.round(fit.effectiveDpi)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>At {targetDpi} DPI:</span>
+                <span>
+                  {Math.round(fit.printWidthIn * targetDpi)} × {Math.round(fit.printHeightIn * targetDpi)} px
+                </span>
+              </div>
+            </div>
+
+            {fit.effectiveDpi < RECOMMENDED_PRINT_DPI && (
+              <Alert variant={fit.effectiveDpi < MINIMUM_PRINT_DPI ? 'destructive' : 'default'}>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {fit.effectiveDpi < MINIMUM_PRINT_DPI
+                    ? `Only ${Math.round(fit.effectiveDpi)} DPI at this size — the print will look pixelated.`
+                    : `${Math.round(fit.effectiveDpi)} DPI is below the ${RECOMMENDED_PRINT_DPI} DPI usually expected for photo prints.`}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Button variant="secondary" className="w-full" onClick={() => onApply(fit.printWidthIn)}>
+              Resample for this paper
+            </Button>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
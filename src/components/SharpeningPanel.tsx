@@ -0,0 +1,115 @@
+import { Focus } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { SHARPEN_MODES, resolveSharpening, type SharpenMode, type SharpenSettings } from "@/lib/filters/sharpen";
+
+interface SharpeningPanelProps {
+  settings: SharpenSettings;
+  onSettingsChange: (settings: SharpenSettings) => void;
+  /** Output density, which the print and screen presets scale their radius to */
+  dpi: number;
+  /** Told when a slider drag starts and ends, so the preview can stay light meanwhile */
+  onAdjustingChange?: (adjusting: boolean) => void;
+}
+
+export const SharpeningPanel = ({ settings, onSettingsChange, dpi, onAdjustingChange }: SharpeningPanelProps) => {
+  const update = (patch: Partial<SharpenSettings>) => onSettingsChange({ ...settings, ...patch });
+  const adjust = (patch: Partial<SharpenSettings>) => {
+    update(patch);
+    onAdjustingChange?.(true);
+  };
+  const commit = () => onAdjustingChange?.(false);
+  const preset = settings.mode === 'print' || settings.mode === 'screen' ? resolveSharpening(settings, dpi) : null;
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-6 flex items-center gap-2">
+        <Focus className="h-5 w-5 text-primary" />
+        Sharpening
+      </h3>
+
+      <div className="space-y-6">
+        <div>
+          <label className="text-sm font-medium mb-2 block">Mode</label>
+          <Select value={settings.mode} onValueChange={(value) => update({ mode: value as SharpenMode })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SHARPEN_MODES.map((mode) => (
+                <SelectItem key={mode.value} value={mode.value}>
+                  {mode.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {preset && (
+            <p className="text-xs text-muted-foreground mt-1">
+              At {Math.round(dpi)} DPI: radius {preset.radius.toFixed(1)} px, amount {preset.amount}%, threshold {preset.threshold}
+            </p>
+          )}
+        </div>
+
+        {settings.mode === 'custom' && (
+          <>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Amount: {settings.amount}%</label>
+              <Slider
+                value={[settings.amount]}
+                onValueChange={(value) => adjust({ amount: value[0] })}
+                onValueCommit={commit}
+                max={300}
+                min={0}
+                step={10}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Radius: {settings.radius.toFixed(1)} px</label>
+              <Slider
+                value={[settings.radius]}
+                onValueChange={(value) => adjust({ radius: value[0] })}
+                onValueCommit={commit}
+                max={5}
+                min={0.3}
+                step={0.1}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Threshold: {settings.threshold} levels</label>
+              <Slider
+                value={[settings.threshold]}
+                onValueChange={(value) => adjust({ threshold: value[0] })}
+                onValueCommit={commit}
+                max={20}
+                min={0}
+                step={1}
+                className="w-full"
+              />
+            </div>
+          </>
+        )}
+
+        {settings.mode !== 'off' && (
+          <div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="edge-aware">Edge-aware</Label>
+              <Switch
+                id="edge-aware"
+                checked={settings.edgeAware}
+                onCheckedChange={(checked) => update({ edgeAware: checked })}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Sharpens only where there are edges, leaving skies, skin and noise in flat areas as they are.
+            </p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
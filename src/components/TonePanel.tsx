@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { SunMedium } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CurveEditor } from "@/components/CurveEditor";
+import {
+  CURVE_CHANNELS,
+  DEFAULT_TONE_SETTINGS,
+  IDENTITY_CURVE,
+  type CurveChannel,
+  type ToneSettings,
+} from "@/lib/filters/tone";
+
+interface TonePanelProps {
+  settings: ToneSettings;
+  onSettingsChange: (settings: ToneSettings) => void;
+  /** Told when a slider or curve drag starts and ends, so the preview can stay light meanwhile */
+  onAdjustingChange?: (adjusting: boolean) => void;
+}
+
+const CURVE_COLORS: Record<CurveChannel, string> = {
+  master: 'hsl(var(--primary))',
+  red: '#ef4444',
+  green: '#22c55e',
+  blue: '#3b82f6',
+};
+
+interface ToneSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  onCommit: () => void;
+}
+
+const ToneSlider = ({ label, value, min, max, step, onChange, onCommit }: ToneSliderProps) => (
+  <div>
+    <label className="text-sm font-medium mb-2 block">
+      {label}: {value}
+    </label>
+    <Slider
+      value={[value]}
+      onValueChange={(next) => onChange(next[0])}
+      onValueCommit={onCommit}
+      max={max}
+      min={min}
+      step={step}
+      className="w-full"
+    />
+  </div>
+);
+
+export const TonePanel = ({ settings, onSettingsChange, onAdjustingChange }: TonePanelProps) => {
+  const [channel, setChannel] = useState<CurveChannel>('master');
+  const adjust = (patch: Partial<ToneSettings>) => {
+    onSettingsChange({ ...settings, ...patch });
+    onAdjustingChange?.(true);
+  };
+  const commit = () => onAdjustingChange?.(false);
+  const slider = (label: string, key: keyof ToneSettings, min: number, max: number, step: number) => (
+    <ToneSlider
+      label={label}
+      value={settings[key] as number}
+      min={min}
+      max={max}
+      step={step}
+      onChange={(value) => adjust({ [key]: value })}
+      onCommit={commit}
+    />
+  );
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <SunMedium className="h-5 w-5 text-primary" />
+          Tone
+        </h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() =>
+            onSettingsChange({ ...DEFAULT_TONE_SETTINGS, brightness: settings.brightness, contrast: settings.contrast })
+          }
+        >
+          Reset
+        </Button>
+      </div>
+
+      <div className="space-y-6">
+        {slider('Exposure (EV)', 'exposure', -3, 3, 0.1)}
+        {slider('Shadows', 'shadows', 0, 100, 5)}
+        {slider('Highlights', 'highlights', 0, 100, 5)}
+
+        <div className="space-y-4">
+          <h4 className="text-sm font-semibold">Levels</h4>
+          {slider('Input black', 'inputBlack', 0, settings.inputWhite - 1, 1)}
+          {slider('Input white', 'inputWhite', settings.inputBlack + 1, 255, 1)}
+          {slider('Gamma', 'gamma', 0.1, 3, 0.05)}
+          {slider('Output black', 'outputBlack', 0, 255, 1)}
+          {slider('Output white', 'outputWhite', 0, 255, 1)}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold">Curves</h4>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={channel}
+              onValueChange={(value) => value && setChannel(value as CurveChannel)}
+            >
+              {CURVE_CHANNELS.map((option) => (
+                <ToggleGroupItem key={option.value} value={option.value} className="text-xs">
+                  {option.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+          <CurveEditor
+            points={settings.curves[channel]}
+            onPointsChange={(points) => onSettingsChange({ ...settings, curves: { ...settings.curves, [channel]: points } })}
+            color={CURVE_COLORS[channel]}
+            onAdjustingChange={onAdjustingChange}
+          />
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>Click to add a point, double-click to remove it</span>
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => onSettingsChange({ ...settings, curves: { ...settings.curves, [channel]: IDENTITY_CURVE } })}
+            >
+              Reset curve
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+};
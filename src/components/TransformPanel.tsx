@@ -0,0 +1,122 @@
+import { FlipHorizontal2, FlipVertical2, RotateCcw, RotateCw, Ruler } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  DEFAULT_TRANSFORM_SETTINGS,
+  STRAIGHTEN_LIMIT,
+  type QuarterTurns,
+  type TransformSettings,
+} from "@/lib/transform";
+
+interface TransformPanelProps {
+  settings: TransformSettings;
+  onSettingsChange: (settings: TransformSettings) => void;
+  /** Whether a line drawn on the result sets the straightening */
+  drawingHorizon: boolean;
+  onDrawingHorizonChange: (drawing: boolean) => void;
+  /** Told when a slider drag starts and ends, so the preview can stay light meanwhile */
+  onAdjustingChange?: (adjusting: boolean) => void;
+}
+
+export const TransformPanel = ({
+  settings,
+  onSettingsChange,
+  drawingHorizon,
+  onDrawingHorizonChange,
+  onAdjustingChange,
+}: TransformPanelProps) => {
+  const update = (patch: Partial<TransformSettings>) => onSettingsChange({ ...settings, ...patch });
+  const adjust = (patch: Partial<TransformSettings>) => {
+    update(patch);
+    onAdjustingChange?.(true);
+  };
+  const commit = () => onAdjustingChange?.(false);
+
+  // Turns act before the flips, so a mirrored picture turns the other way
+  // unless the step is reversed; this keeps the buttons true to the screen
+  const turn = (direction: 1 | -1) => {
+    const step = settings.flipHorizontal !== settings.flipVertical ? -direction : direction;
+    update({ rotate: ((settings.rotate + step + 4) % 4) as QuarterTurns });
+  };
+  // Mirroring a straightened picture mirrors its tilt too
+  const flip = (axis: 'flipHorizontal' | 'flipVertical') =>
+    update({ [axis]: !settings[axis], straighten: settings.straighten === 0 ? 0 : -settings.straighten });
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <RotateCw className="h-5 w-5 text-primary" />
+          Rotate & Straighten
+        </h3>
+        <Button variant="ghost" size="sm" onClick={() => onSettingsChange(DEFAULT_TRANSFORM_SETTINGS)}>
+          Reset
+        </Button>
+      </div>
+
+      <div className="space-y-6">
+        <div className="grid grid-cols-4 gap-2">
+          <Button variant="outline" size="sm" onClick={() => turn(-1)} aria-label="Rotate left">
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => turn(1)} aria-label="Rotate right">
+            <RotateCw className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={settings.flipHorizontal ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => flip('flipHorizontal')}
+            aria-label="Flip horizontally"
+          >
+            <FlipHorizontal2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant={settings.flipVertical ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => flip('flipVertical')}
+            aria-label="Flip vertically"
+          >
+            <FlipVertical2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div>
+          <label className="text-sm font-medium mb-2 block">Straighten: {settings.straighten.toFixed(1)}°</label>
+          <Slider
+            value={[settings.straighten]}
+            onValueChange={(value) => adjust({ straighten: value[0] })}
+            onValueCommit={commit}
+            max={STRAIGHTEN_LIMIT}
+            min={-STRAIGHTEN_LIMIT}
+            step={0.1}
+            className="w-full"
+          />
+        </div>
+
+        <Button
+          variant={drawingHorizon ? 'default' : 'outline'}
+          size="sm"
+          className="w-full"
+          onClick={() => onDrawingHorizonChange(!drawingHorizon)}
+        >
+          <Ruler className="mr-2 h-4 w-4" />
+          {drawingHorizon ? 'Drag along the horizon in the viewer' : 'Draw horizon line'}
+        </Button>
+
+        <div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="auto-crop">Crop empty corners</Label>
+            <Switch id="auto-crop" checked={settings.autoCrop} onCheckedChange={(checked) => update({ autoCrop: checked })} />
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            Trims a straightened picture to the largest rectangle of its shape. Otherwise the corners are filled white, or
+            left transparent in images with alpha.
+          </p>
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { histogramFromUrl, type ImageHistogram } from "@/lib/histogram";
+
+/**
+ * The histogram of the image at `url`, recomputed whenever the URL changes.
+ * The previous histogram stays until the next one is ready, so live
+ * previews do not flicker.
+ */
+export const useHistogram = (url: string | null): ImageHistogram | null => {
+  const [histogram, setHistogram] = useState<ImageHistogram | null>(null);
+
+  useEffect(() => {
+    if (!url) {
+      setHistogram(null);
+      return;
+    }
+    let current = true;
+    histogramFromUrl(url)
+      .then((next) => {
+        if (current) setHistogram(next);
+      })
+      // An image the browser cannot show has no histogram either
+      .catch(() => {
+        if (current) setHistogram(null);
+      });
+    return () => {
+      current = false;
+    };
+  }, [url]);
+
+  return histogram;
+};
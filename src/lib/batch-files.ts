@@ -0,0 +1,62 @@
+import { zipSync } from "fflate";
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// Hidden files (.DS_Store and friends) are never what the user meant to drop
+const isHidden = (name: string) => name.startsWith('.');
+
+const walkEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) return [await entryFile(entry as FileSystemFileEntry)];
+  if (!entry.isDirectory) return [];
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  // readEntries hands back at most ~100 entries per call; keep asking until it returns none
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    for (const child of batch) {
+      if (!isHidden(child.name)) files.push(...(await walkEntry(child)));
+    }
+  }
+  return files;
+};
+
+/**
+ * Every file in a drop, descending into dropped folders. Falls back to the
+ * flat file list where the entries API is missing.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries must be taken synchronously; the item list is emptied once the drop handler yields
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const files: File[] = [];
+  for (const entry of entries) files.push(...(await walkEntry(entry)));
+  return files;
+};
+
+/** Files from an `<input type="file">`, without the hidden files a folder pick drags along. */
+export const inputFiles = (list: FileList | null): File[] =>
+  Array.from(list ?? []).filter((file) => !isHidden(file.name));
+
+/**
+ * `photo.png` → `photo-enhanced.jpg`, numbered when `taken` already holds
+ * that name. The chosen name is added to `taken`.
+ */
+export const enhancedFileName = (original: string, extension: string, taken: Set<string>): string => {
+  const dot = original.lastIndexOf('.');
+  const base = `${dot > 0 ? original.slice(0, dot) : original}-enhanced`;
+  let name = `${base}.${extension}`;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${base}-${n}.${extension}`;
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+/** A flat ZIP of the given files. Images are already compressed, so they are stored as-is. */
+export const buildZip = (files: { name: string; bytes: Uint8Array }[]): Uint8Array =>
+  zipSync(Object.fromEntries(files.map((file) => [file.name, file.bytes])), { level: 0 });
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { centeredCrop, clampCrop, dragCrop, shrinkToRatio, type CropHandle, type CropRect } from "./crop";
+
+const HANDLES: CropHandle[] = ['n', 's', 'e', 'w', 'ne', 'nw', 'se', 'sw'];
+const start: CropRect = { x: 100, y: 80, width: 300, height: 200 };
+
+const inside = (crop: CropRect, width: number, height: number) => {
+  expect(crop.x).toBeGreaterThanOrEqual(-1e-9);
+  expect(crop.y).toBeGreaterThanOrEqual(-1e-9);
+  expect(crop.x + crop.width).toBeLessThanOrEqual(width + 1e-9);
+  expect(crop.y + crop.height).toBeLessThanOrEqual(height + 1e-9);
+};
+
+describe('dragCrop', () => {
+  it.each(HANDLES)('keeps the ratio and stays in the image when dragging %s', (handle) => {
+    for (const [dx, dy] of [[40, 25], [-60, -30], [900, 900], [-900, -900], [0, 0]]) {
+      const crop = dragCrop(start, handle, dx, dy, 3 / 2, 640, 480);
+      expect(crop.width / crop.height).toBeCloseTo(3 / 2, 9);
+      inside(crop, 640, 480);
+    }
+  });
+
+  it('holds the corner opposite the handle', () => {
+    const crop = dragCrop(start, 'nw', -50, 0, 3 / 2, 640, 480);
+    expect(crop.x + crop.width).toBeCloseTo(400, 9);
+    expect(crop.y + crop.height).toBeCloseTo(280, 9);
+    expect(crop.width).toBeCloseTo(350, 9);
+  });
+
+  it('keeps the other axis centred for edge handles', () => {
+    const crop = dragCrop(start, 's', 0, 40, 3 / 2, 640, 480);
+    expect(crop.y).toBe(80);
+    expect(crop.height).toBeCloseTo(240, 9);
+    expect(crop.x + crop.width / 2).toBeCloseTo(250, 9);
+  });
+
+  it('moves edges freely without a ratio', () => {
+    expect(dragCrop(start, 'se', 20, -50, null, 640, 480)).toEqual({ x: 100, y: 80, width: 320, height: 150 });
+    expect(dragCrop(start, 'w', 500, 0, null, 640, 480)).toEqual({ x: 399, y: 80, width: 1, height: 200 });
+  });
+
+  it('moves the box without leaving the image', () => {
+    expect(dragCrop(start, 'move', 1000, -1000, 1, 640, 480)).toEqual({ x: 340, y: 0, width: 300, height: 200 });
+  });
+});
+
+describe('shrinkToRatio', () => {
+  it('shrinks about the top-left corner to whole pixels', () => {
+    expect(shrinkToRatio({ x: 10, y: 20, width: 400, height: 100 }, 16 / 9)).toEqual({ x: 10, y: 20, width: 178, height: 100 });
+    expect(shrinkToRatio({ x: 10, y: 20, width: 90, height: 400 }, 3 / 2)).toEqual({ x: 10, y: 20, width: 90, height: 60 });
+  });
+
+  it('keeps a clamped crop at its ratio', () => {
+    const clamped = clampCrop({ x: 500, y: 0, width: 300, height: 300 }, 640, 480);
+    expect(shrinkToRatio(clamped, 1)).toEqual({ x: 500, y: 0, width: 140, height: 140 });
+  });
+});
+
+describe('centeredCrop', () => {
+  it('takes the largest centred box of the ratio', () => {
+    expect(centeredCrop(640, 480, 1)).toEqual({ x: 80, y: 0, width: 480, height: 480 });
+    expect(centeredCrop(640, 480, 16 / 9)).toEqual({ x: 0, y: 60, width: 640, height: 360 });
+  });
+});
@@ -0,0 +1,103 @@
+/** A crop in upright source pixels, after EXIF orientation is applied. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Drag handles of the crop box: edges, corners, or the whole box */
+export type CropHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw' | 'move';
+
+export const CROP_RATIOS: { value: string; label: string; ratio: number | null }[] = [
+  { value: 'free', label: 'Free', ratio: null },
+  { value: '1:1', label: '1:1', ratio: 1 },
+  { value: '4:3', label: '4:3', ratio: 4 / 3 },
+  { value: '3:2', label: '3:2', ratio: 3 / 2 },
+  { value: '16:9', label: '16:9', ratio: 16 / 9 },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Whole pixels, at least one, inside a `width` × `height` image. */
+export const clampCrop = (crop: CropRect, width: number, height: number): CropRect => {
+  const x = clamp(Math.round(crop.x), 0, width - 1);
+  const y = clamp(Math.round(crop.y), 0, height - 1);
+  return {
+    x,
+    y,
+    width: clamp(Math.round(crop.width), 1, width - x),
+    height: clamp(Math.round(crop.height), 1, height - y),
+  };
+};
+
+export const cropIsFull = (crop: CropRect, width: number, height: number) =>
+  crop.x === 0 && crop.y === 0 && crop.width === width && crop.height === height;
+
+/** `crop` shrunk about its top-left corner until it has `ratio` (width / height), in whole pixels. */
+export const shrinkToRatio = (crop: CropRect, ratio: number): CropRect => {
+  const cropWidth = Math.max(1, Math.min(crop.width, crop.height * ratio));
+  return {
+    ...crop,
+    width: Math.round(cropWidth),
+    height: Math.max(1, Math.min(crop.height, Math.round(cropWidth / ratio))),
+  };
+};
+
+/** The largest crop of `ratio` (width / height) centred in the image. */
+export const centeredCrop = (width: number, height: number, ratio: number): CropRect => {
+  const cropWidth = Math.min(width, height * ratio);
+  const cropHeight = cropWidth / ratio;
+  return clampCrop({ x: (width - cropWidth) / 2, y: (height - cropHeight) / 2, width: cropWidth, height: cropHeight }, width, height);
+};
+
+/**
+ * `start` dragged by `handle` over (dx, dy) source pixels. With a `ratio`
+ * the side or corner opposite the handle stays put, edge handles keep the
+ * other axis centred, and the box shrinks rather than leave the image.
+ */
+export const dragCrop = (
+  start: CropRect,
+  handle: CropHandle,
+  dx: number,
+  dy: number,
+  ratio: number | null,
+  width: number,
+  height: number,
+): CropRect => {
+  if (handle === 'move') {
+    return {
+      ...start,
+      x: clamp(start.x + dx, 0, width - start.width),
+      y: clamp(start.y + dy, 0, height - start.height),
+    };
+  }
+
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+  if (handle.includes('w')) left = clamp(left + dx, 0, right - 1);
+  if (handle.includes('e')) right = clamp(right + dx, left + 1, width);
+  if (handle.includes('n')) top = clamp(top + dy, 0, bottom - 1);
+  if (handle.includes('s')) bottom = clamp(bottom + dy, top + 1, height);
+  if (!ratio) return { x: left, y: top, width: right - left, height: bottom - top };
+
+  // The fixed point the constrained box grows from, and room on the side it grows into
+  const centerX = start.x + start.width / 2;
+  const centerY = start.y + start.height / 2;
+  const anchorX = handle.includes('w') ? start.x + start.width : handle.includes('e') ? start.x : centerX;
+  const anchorY = handle.includes('n') ? start.y + start.height : handle.includes('s') ? start.y : centerY;
+  const roomX = handle.includes('w') ? anchorX : handle.includes('e') ? width - anchorX : 2 * Math.min(anchorX, width - anchorX);
+  const roomY = handle.includes('n') ? anchorY : handle.includes('s') ? height - anchorY : 2 * Math.min(anchorY, height - anchorY);
+
+  const wanted = handle === 'n' || handle === 's' ? (bottom - top) * ratio : right - left;
+  const cropWidth = Math.max(1, Math.min(wanted, roomX, roomY * ratio));
+  const cropHeight = cropWidth / ratio;
+  return {
+    x: handle.includes('w') ? anchorX - cropWidth : handle.includes('e') ? anchorX : anchorX - cropWidth / 2,
+    y: handle.includes('n') ? anchorY - cropHeight : handle.includes('s') ? anchorY : anchorY - cropHeight / 2,
+    width: cropWidth,
+    height: cropHeight,
+  };
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { testImage } from "@/test/images";
+import { encodeBmp } from "./bmp";
+
+describe('encodeBmp', () => {
+  it.each([false, true])('writes bottom-up rows padded to four bytes (alpha: %s)', (alpha) => {
+    const image = testImage(5, 3, alpha);
+    const bmp = encodeBmp(image, { dpiX: 96, dpiY: 96 });
+    const view = new DataView(bmp.buffer);
+    const bytesPerPixel = alpha ? 4 : 3;
+    const stride = (5 * bytesPerPixel + 3) & ~3;
+    const pixelOffset = view.getUint32(10, true);
+
+    expect(view.getUint32(2, true)).toBe(bmp.length);
+    expect(view.getUint16(28, true)).toBe(bytesPerPixel * 8);
+    expect(bmp.length).toBe(pixelOffset + stride * 3);
+    for (let y = 0; y < 3; y++) {
+      for (let x = 0; x < 5; x++) {
+        const at = pixelOffset + (2 - y) * stride + x * bytesPerPixel;
+        const i = (y * 5 + x) * 4;
+        const expected = [image.data[i + 2], image.data[i + 1], image.data[i], ...(alpha ? [image.data[i + 3]] : [])];
+        expect(Array.from(bmp.subarray(at, at + bytesPerPixel))).toEqual(expected);
+      }
+    }
+  });
+
+  it('stores the density as pixels per metre', () => {
+    const view = new DataView(encodeBmp(testImage(2, 2), { dpiX: 254, dpiY: 127 }).buffer);
+    expect(view.getInt32(38, true)).toBe(10000);
+    expect(view.getInt32(42, true)).toBe(5000);
+  });
+});
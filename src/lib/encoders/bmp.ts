@@ -0,0 +1,61 @@
+import { isOpaque } from "./png";
+
+export interface BmpOptions {
+  dpiX: number;
+  dpiY: number;
+}
+
+const FILE_HEADER_SIZE = 14;
+const INFO_HEADER_SIZE = 40;
+// BITMAPV4HEADER: needed for the channel masks that make the alpha byte meaningful
+const V4_HEADER_SIZE = 108;
+const INCHES_PER_METER = 39.3700787;
+
+/**
+ * Bottom-up BMP: 24-bit BGR for opaque images, 32-bit BGRA with a V4 header
+ * when there is transparency.
+ */
+export const encodeBmp = (image: ImageData, options: BmpOptions): Uint8Array => {
+  const { width, height, data } = image;
+  const alpha = !isOpaque(image);
+  const bytesPerPixel = alpha ? 4 : 3;
+  // Rows are padded to a multiple of four bytes
+  const stride = (width * bytesPerPixel + 3) & ~3;
+  const headerSize = alpha ? V4_HEADER_SIZE : INFO_HEADER_SIZE;
+  const pixelOffset = FILE_HEADER_SIZE + headerSize;
+  const out = new Uint8Array(pixelOffset + stride * height);
+  const view = new DataView(out.buffer);
+
+  out.set([0x42, 0x4d]);
+  view.setUint32(2, out.length, true);
+  view.setUint32(10, pixelOffset, true);
+
+  view.setUint32(14, headerSize, true);
+  view.setInt32(18, width, true);
+  view.setInt32(22, height, true);
+  view.setUint16(26, 1, true);
+  view.setUint16(28, bytesPerPixel * 8, true);
+  view.setUint32(30, alpha ? 3 : 0, true); // BI_BITFIELDS or BI_RGB
+  view.setUint32(34, stride * height, true);
+  view.setInt32(38, Math.round(options.dpiX * INCHES_PER_METER), true);
+  view.setInt32(42, Math.round(options.dpiY * INCHES_PER_METER), true);
+  if (alpha) {
+    view.setUint32(54, 0x00ff0000, true);
+    view.setUint32(58, 0x0000ff00, true);
+    view.setUint32(62, 0x000000ff, true);
+    view.setUint32(66, 0xff000000, true);
+    view.setUint32(70, 0x73524742, true); // 'sRGB'
+  }
+
+  for (let y = 0; y < height; y++) {
+    let at = pixelOffset + (height - 1 - y) * stride;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      out[at++] = data[i + 2];
+      out[at++] = data[i + 1];
+      out[at++] = data[i];
+      if (alpha) out[at++] = data[i + 3];
+    }
+  }
+  return out;
+};
@@ -0,0 +1,61 @@
+import type { ExportOptions } from "@/lib/export-format";
+import { writeResolution } from "@/lib/metadata/write-resolution";
+import { encodeBmp } from "./bmp";
+import { encodePng } from "./png";
+import { encodeTiff } from "./tiff";
+
+export interface EncodeSettings {
+  /** 1–100 */
+  quality: number;
+  dpiX: number;
+  dpiY: number;
+}
+
+const pixels = (canvas: OffscreenCanvas): ImageData => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const encodePixels = async (canvas: OffscreenCanvas, options: ExportOptions, settings: EncodeSettings): Promise<Uint8Array> => {
+  switch (options.format) {
+    case 'png':
+      return encodePng(pixels(canvas), { bitDepth: options.pngBitDepth, compression: options.pngCompression });
+    case 'webp': {
+      // The WASM encoders are loaded on first use so they stay out of the main bundle
+      const { default: encode } = await import("@jsquash/webp/encode");
+      const buffer = await encode(pixels(canvas), {
+        quality: settings.quality,
+        lossless: options.webpLossless ? 1 : 0,
+        // Keep RGB under fully transparent pixels in lossless mode
+        exact: options.webpLossless ? 1 : 0,
+      });
+      return new Uint8Array(buffer);
+    }
+    case 'avif': {
+      const { default: encode } = await import("@jsquash/avif/encode");
+      return new Uint8Array(await encode(pixels(canvas), { quality: settings.quality, speed: options.avifSpeed }));
+    }
+    case 'tiff':
+      return encodeTiff(pixels(canvas), {
+        compression: options.tiffCompression,
+        dpiX: settings.dpiX,
+        dpiY: settings.dpiY,
+      });
+    case 'bmp':
+      return encodeBmp(pixels(canvas), { dpiX: settings.dpiX, dpiY: settings.dpiY });
+    default: {
+      const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: settings.quality / 100 });
+      return new Uint8Array(await blob.arrayBuffer());
+    }
+  }
+};
+
+/**
+ * Encodes the canvas in the chosen format and declares the target density
+ * wherever the format has room for it.
+ */
+export const encodeImage = async (canvas: OffscreenCanvas, options: ExportOptions, settings: EncodeSettings): Promise<Uint8Array> => {
+  const encoded = await encodePixels(canvas, options, settings);
+  return writeResolution(encoded, settings.dpiX, settings.dpiY);
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { lzwDecode } from "@/test/lzw-decode";
+import { lzwEncode } from "./lzw";
+
+const pattern = (length: number) => {
+  const bytes = new Uint8Array(length);
+  // Runs and noise alternate, so the table fills with both long and short strings
+  for (let i = 0; i < length; i++) bytes[i] = i % 97 < 50 ? (i * 31) & 0xff : i % 3;
+  return bytes;
+};
+
+describe('lzwEncode', () => {
+  it.each([0, 1, 2, 255, 1000])('round-trips %i bytes', (length) => {
+    const input = pattern(length);
+    expect(lzwDecode(lzwEncode(input))).toEqual(input);
+  });
+
+  it('round-trips input that fills and resets the code table several times', () => {
+    const input = new Uint8Array(60_000);
+    let seed = 1;
+    for (let i = 0; i < input.length; i++) {
+      seed = (seed * 1103515245 + 12345) >>> 0;
+      input[i] = seed >>> 24;
+    }
+    expect(lzwDecode(lzwEncode(input))).toEqual(input);
+  });
+
+  it('compresses repetitive data', () => {
+    const input = new Uint8Array(10_000).fill(42);
+    expect(lzwEncode(input).length).toBeLessThan(input.length / 20);
+  });
+});
@@ -0,0 +1,64 @@
+const CLEAR = 256;
+const EOI = 257;
+const FIRST_CODE = 258;
+// libtiff resets the table one code before the 12-bit space runs out
+const TABLE_LIMIT = 4094;
+
+/**
+ * TIFF flavour of LZW (compression 5): MSB-first codes of 9 to 12 bits with
+ * the "early change" width switch that libtiff's decoder expects.
+ */
+export const lzwEncode = (input: Uint8Array): Uint8Array => {
+  const out: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  let width = 9;
+  const write = (code: number) => {
+    buffer = (buffer << width) | code;
+    bits += width;
+    while (bits >= 8) {
+      bits -= 8;
+      out.push((buffer >>> bits) & 0xff);
+    }
+    buffer &= (1 << bits) - 1;
+  };
+
+  let table = new Map<number, number>();
+  let next = FIRST_CODE;
+  const advance = () => {
+    next++;
+    if (next === TABLE_LIMIT) {
+      write(CLEAR);
+      table = new Map();
+      next = FIRST_CODE;
+      width = 9;
+    } else if (next > (1 << width) - 1) {
+      width++;
+    }
+  };
+
+  write(CLEAR);
+  if (input.length === 0) {
+    write(EOI);
+  } else {
+    let prefix = input[0];
+    for (let i = 1; i < input.length; i++) {
+      const key = prefix * 256 + input[i];
+      const code = table.get(key);
+      if (code !== undefined) {
+        prefix = code;
+        continue;
+      }
+      write(prefix);
+      table.set(key, next);
+      advance();
+      prefix = input[i];
+    }
+    write(prefix);
+    advance();
+    write(EOI);
+  }
+
+  if (bits > 0) out.push((buffer << (8 - bits)) & 0xff);
+  return new Uint8Array(out);
+};
@@ -0,0 +1,112 @@
+import { zlibSync } from "fflate";
+import { concat, pngChunk } from "@/lib/metadata/chunks";
+
+export type PngBitDepth = 8 | 16;
+
+export interface PngOptions {
+  /** Bits per channel. 16-bit output widens the 8-bit canvas values. */
+  bitDepth: PngBitDepth;
+  /** zlib level, 0 (store) to 9 (smallest) */
+  compression: number;
+}
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Colour types: 2 = truecolour, 6 = truecolour with alpha
+const COLOR_RGB = 2;
+const COLOR_RGBA = 6;
+
+export const isOpaque = (image: ImageData): boolean => {
+  const { data } = image;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 255) return false;
+  }
+  return true;
+};
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+};
+
+const predict = (type: number, a: number, b: number, c: number) => {
+  switch (type) {
+    case 1: return a;
+    case 2: return b;
+    case 3: return (a + b) >> 1;
+    case 4: return paeth(a, b, c);
+    default: return 0;
+  }
+};
+
+/**
+ * Filters one scanline with each of the five PNG filters and keeps the one
+ * with the smallest sum of absolute values, the heuristic libpng uses.
+ */
+const filterRow = (row: Uint8Array, prev: Uint8Array, bpp: number, scratch: Uint8Array[], out: Uint8Array, at: number) => {
+  let best = 0, bestScore = Infinity;
+  for (let type = 0; type < 5; type++) {
+    const filtered = scratch[type];
+    let score = 0;
+    for (let i = 0; i < row.length; i++) {
+      const a = i >= bpp ? row[i - bpp] : 0;
+      const c = i >= bpp ? prev[i - bpp] : 0;
+      const value = (row[i] - predict(type, a, prev[i], c)) & 0xff;
+      filtered[i] = value;
+      score += value < 128 ? value : 256 - value;
+    }
+    if (score < bestScore) {
+      best = type;
+      bestScore = score;
+    }
+  }
+  out[at] = best;
+  out.set(scratch[best], at + 1);
+};
+
+export const encodePng = (image: ImageData, options: PngOptions): Uint8Array => {
+  const { width, height, data } = image;
+  const alpha = !isOpaque(image);
+  const channels = alpha ? 4 : 3;
+  const bytesPerSample = options.bitDepth / 8;
+  const bpp = channels * bytesPerSample;
+  const stride = width * bpp;
+
+  const raw = new Uint8Array((stride + 1) * height);
+  const scratch = [0, 1, 2, 3, 4].map(() => new Uint8Array(stride));
+  let prev = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    const row = new Uint8Array(stride);
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < channels; c++) {
+        const value = data[(y * width + x) * 4 + c];
+        const at = (x * channels + c) * bytesPerSample;
+        // 16-bit samples are big-endian; v * 257 maps 0..255 onto 0..65535 exactly
+        if (bytesPerSample === 2) row[at] = row[at + 1] = value;
+        else row[at] = value;
+      }
+    }
+    // Level 0 stores the data, so filtering would only cost time
+    if (options.compression === 0) raw.set(row, y * (stride + 1) + 1);
+    else filterRow(row, prev, bpp, scratch, raw, y * (stride + 1));
+    prev = row;
+  }
+
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  ihdr[8] = options.bitDepth;
+  ihdr[9] = alpha ? COLOR_RGBA : COLOR_RGB;
+  // Compression, filter and interlace methods are all 0
+
+  const level = Math.min(9, Math.max(0, Math.round(options.compression))) as 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+  return concat(
+    PNG_SIGNATURE,
+    pngChunk('IHDR', ihdr),
+    pngChunk('IDAT', zlibSync(raw, { level })),
+    pngChunk('IEND', new Uint8Array(0)),
+  );
+};
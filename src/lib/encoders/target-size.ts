@@ -0,0 +1,101 @@
+import { usesQuality, type ExportOptions } from "@/lib/export-format";
+import { encodeImage, type EncodeSettings } from "./encode";
+
+// Below this JPEG/WebP/AVIF quality the artefacts outweigh any size win; shrink instead
+export const MIN_TARGET_QUALITY = 10;
+const MAX_DOWNSCALE_PASSES = 6;
+// Aim a little under the limit when shrinking so the following quality search has room
+const DOWNSCALE_MARGIN = 0.95;
+
+export interface TargetSizeReport {
+  /** The limit that was asked for, in bytes */
+  maxBytes: number;
+  /** Quality the search settled on; null for formats without a quality setting */
+  quality: number | null;
+  /** Number of encodes it took */
+  iterations: number;
+  /** Linear scale applied to the pixels, 1 when the size was met without downscaling */
+  scale: number;
+  /** False when even the smallest attempt stayed over the limit */
+  met: boolean;
+}
+
+export interface TargetSizeResult {
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+  report: TargetSizeReport;
+}
+
+export interface TargetSizeOptions {
+  maxBytes: number;
+  /** Whether the limit may be met by reducing pixel dimensions too */
+  allowDownscale: boolean;
+  /** Produces the smaller canvas for a downscale pass */
+  resize: (canvas: OffscreenCanvas, width: number, height: number) => OffscreenCanvas;
+  /** Called before each encode with the number made so far; may throw to abandon the search */
+  onAttempt?: (iterations: number) => void;
+}
+
+/**
+ * Encodes the canvas as large as possible while staying at or under
+ * `maxBytes`. Quality is binary-searched for lossy formats; when even the
+ * lowest quality (or a lossless format) is too big and `allowDownscale` is
+ * set, the pixels are shrunk and the search repeated. Downscaling keeps the
+ * print size, so the declared DPI drops with the pixel count.
+ */
+export const encodeToSize = async (
+  canvas: OffscreenCanvas,
+  options: ExportOptions,
+  settings: EncodeSettings,
+  { maxBytes, allowDownscale, resize, onAttempt }: TargetSizeOptions,
+): Promise<TargetSizeResult> => {
+  let iterations = 0;
+  let scale = 1;
+  let target = canvas;
+  let smallest: { bytes: Uint8Array; quality: number | null } | null = null;
+
+  const encode = async (quality: number) => {
+    onAttempt?.(iterations);
+    iterations++;
+    return encodeImage(target, options, { quality, dpiX: settings.dpiX * scale, dpiY: settings.dpiY * scale });
+  };
+  const result = (bytes: Uint8Array, quality: number | null, met: boolean): TargetSizeResult => ({
+    bytes,
+    width: target.width,
+    height: target.height,
+    report: { maxBytes, quality, iterations, scale, met },
+  });
+
+  for (let pass = 0; pass <= MAX_DOWNSCALE_PASSES; pass++) {
+    if (usesQuality(options)) {
+      // Largest quality that fits, starting from the user's setting as the upper bound
+      let lo = MIN_TARGET_QUALITY, hi = Math.max(MIN_TARGET_QUALITY, settings.quality);
+      let best: { bytes: Uint8Array; quality: number } | null = null;
+      while (lo <= hi) {
+        const mid = Math.floor((lo + hi) / 2);
+        const bytes = await encode(mid);
+        if (bytes.length <= maxBytes) {
+          best = { bytes, quality: mid };
+          lo = mid + 1;
+        } else {
+          if (mid === MIN_TARGET_QUALITY) smallest = { bytes, quality: mid };
+          hi = mid - 1;
+        }
+      }
+      if (best) return result(best.bytes, best.quality, true);
+    } else {
+      const bytes = await encode(settings.quality);
+      if (bytes.length <= maxBytes) return result(bytes, null, true);
+      smallest = { bytes, quality: null };
+    }
+
+    if (!allowDownscale || pass === MAX_DOWNSCALE_PASSES) break;
+    // File size grows roughly with pixel count, so shrink each side by the square root
+    scale *= Math.min(0.9, Math.sqrt(maxBytes / smallest.bytes.length) * DOWNSCALE_MARGIN);
+    target = resize(canvas, Math.max(1, Math.round(canvas.width * scale)), Math.max(1, Math.round(canvas.height * scale)));
+  }
+
+  // Nothing fit: hand back the smallest attempt so the user sees how close it came
+  return result(smallest.bytes, smallest.quality, false);
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { TIFF_TAGS, getNumber, parseTiff } from "@/lib/metadata/tiff";
+import { lzwDecode } from "@/test/lzw-decode";
+import { testImage } from "@/test/images";
+import { encodeTiff, type TiffCompression } from "./tiff";
+
+const COMPRESSION = 0x0103;
+const STRIP_OFFSETS = 0x0111;
+const SAMPLES_PER_PIXEL = 0x0115;
+const STRIP_BYTE_COUNTS = 0x0117;
+const PREDICTOR = 0x013d;
+
+// Reads the single strip back into interleaved samples, undoing LZW and the predictor
+const decodeStrip = (bytes: Uint8Array) => {
+  const tiff = parseTiff(bytes);
+  const ifd0 = tiff?.ifd0 ?? null;
+  const width = getNumber(ifd0, TIFF_TAGS.ImageWidth) ?? 0;
+  const channels = getNumber(ifd0, SAMPLES_PER_PIXEL) ?? 0;
+  const offset = getNumber(ifd0, STRIP_OFFSETS) ?? 0;
+  const strip = bytes.subarray(offset, offset + (getNumber(ifd0, STRIP_BYTE_COUNTS) ?? 0));
+  const samples = getNumber(ifd0, COMPRESSION) === 5 ? lzwDecode(strip) : strip.slice();
+  if (getNumber(ifd0, PREDICTOR) === 2) {
+    const stride = width * channels;
+    for (let row = 0; row < samples.length; row += stride) {
+      for (let i = channels; i < stride; i++) samples[row + i] = (samples[row + i] + samples[row + i - channels]) & 0xff;
+    }
+  }
+  return { ifd0, channels, samples };
+};
+
+const interleave = (image: ImageData, channels: number) =>
+  Uint8Array.from({ length: image.width * image.height * channels }, (_, i) => image.data[Math.floor(i / channels) * 4 + (i % channels)]);
+
+describe('encodeTiff', () => {
+  it.each<[TiffCompression, boolean]>([
+    ['none', false],
+    ['none', true],
+    ['lzw', false],
+    ['lzw', true],
+  ])('stores the pixels with %s compression (alpha: %s)', (compression, alpha) => {
+    const image = testImage(19, 7, alpha);
+    const { ifd0, channels, samples } = decodeStrip(encodeTiff(image, { compression, dpiX: 300, dpiY: 300 }));
+    expect(channels).toBe(alpha ? 4 : 3);
+    expect(getNumber(ifd0, TIFF_TAGS.ImageLength)).toBe(7);
+    expect(samples).toEqual(interleave(image, channels));
+  });
+
+  it('declares the density in inches', () => {
+    const { ifd0 } = decodeStrip(encodeTiff(testImage(3, 3), { compression: 'none', dpiX: 300, dpiY: 150 }));
+    expect(getNumber(ifd0, TIFF_TAGS.XResolution)).toBe(300);
+    expect(getNumber(ifd0, TIFF_TAGS.YResolution)).toBe(150);
+    expect(getNumber(ifd0, TIFF_TAGS.ResolutionUnit)).toBe(2);
+  });
+});
@@ -0,0 +1,86 @@
+import { concat } from "@/lib/metadata/chunks";
+import { TIFF_TAGS } from "@/lib/metadata/tiff";
+import {
+  buildTiff,
+  longEntry,
+  rationalEntry,
+  shortEntry,
+  shortsEntry,
+  type TiffWriteEntry,
+} from "@/lib/metadata/tiff-writer";
+import { lzwEncode } from "./lzw";
+import { isOpaque } from "./png";
+
+export type TiffCompression = 'none' | 'lzw';
+
+export interface TiffOptions {
+  compression: TiffCompression;
+  dpiX: number;
+  dpiY: number;
+}
+
+// Strip layout tags only matter when writing image data, so they are not in TIFF_TAGS
+const TAG = {
+  StripOffsets: 0x0111,
+  SamplesPerPixel: 0x0115,
+  RowsPerStrip: 0x0116,
+  StripByteCounts: 0x0117,
+  PlanarConfiguration: 0x011c,
+  Predictor: 0x013d,
+} as const;
+
+/** Applies TIFF predictor 2 (horizontal differencing) to interleaved 8-bit rows. */
+const differenceRows = (pixels: Uint8Array, width: number, height: number, channels: number) => {
+  const stride = width * channels;
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    for (let i = stride - 1; i >= channels; i--) {
+      pixels[row + i] = (pixels[row + i] - pixels[row + i - channels]) & 0xff;
+    }
+  }
+};
+
+/**
+ * Baseline RGB(A) TIFF with a single strip, 8 bits per sample and the
+ * density in XResolution/YResolution.
+ */
+export const encodeTiff = (image: ImageData, options: TiffOptions): Uint8Array => {
+  const { width, height, data } = image;
+  const alpha = !isOpaque(image);
+  const channels = alpha ? 4 : 3;
+
+  let pixels = new Uint8Array(width * height * channels);
+  for (let i = 0, o = 0; i < data.length; i += 4) {
+    for (let c = 0; c < channels; c++) pixels[o++] = data[i + c];
+  }
+  const lzw = options.compression === 'lzw';
+  if (lzw) {
+    differenceRows(pixels, width, height, channels);
+    pixels = lzwEncode(pixels);
+  }
+
+  const little = true;
+  const entries = (stripOffset: number): TiffWriteEntry[] => [
+    longEntry(TIFF_TAGS.ImageWidth, width, little),
+    longEntry(TIFF_TAGS.ImageLength, height, little),
+    shortsEntry(TIFF_TAGS.BitsPerSample, new Array(channels).fill(8), little),
+    shortEntry(TIFF_TAGS.Compression, lzw ? 5 : 1, little),
+    shortEntry(TIFF_TAGS.PhotometricInterpretation, 2, little),
+    longEntry(TAG.StripOffsets, stripOffset, little),
+    shortEntry(TAG.SamplesPerPixel, channels, little),
+    longEntry(TAG.RowsPerStrip, height, little),
+    longEntry(TAG.StripByteCounts, pixels.length, little),
+    rationalEntry(TIFF_TAGS.XResolution, options.dpiX, little),
+    rationalEntry(TIFF_TAGS.YResolution, options.dpiY, little),
+    shortEntry(TAG.PlanarConfiguration, 1, little),
+    shortEntry(TIFF_TAGS.ResolutionUnit, 2, little),
+    ...(lzw ? [shortEntry(TAG.Predictor, 2, little)] : []),
+    // Canvas pixels are unassociated (straight) alpha
+    ...(alpha ? [shortEntry(TIFF_TAGS.ExtraSamples, 2, little)] : []),
+  ];
+
+  // The header's size does not depend on the offset value, so measure it first
+  const headerLength = buildTiff({ littleEndian: little, ifd0: entries(0), exif: [], gps: [] }).length;
+  const header = buildTiff({ littleEndian: little, ifd0: entries(headerLength), exif: [], gps: [] });
+  return concat(header, pixels);
+};
@@ -0,0 +1,105 @@
+import type { AutoAdjustments } from "@/lib/filters/auto-enhance";
+import type { AnalysisSettings, EnhanceProgress, EnhanceRequest, EnhanceResponse, EnhanceResult, EnhanceSettings, SourceImage } from "@/lib/enhance";
+
+interface EnhanceJobOptions {
+  /** A quick low-resolution render for live feedback; see enhanceBitmap */
+  preview?: boolean;
+  onProgress?: (progress: EnhanceProgress) => void;
+  /** Aborting rejects the job with an AbortError and tells the worker to drop it */
+  signal?: AbortSignal;
+}
+
+export interface Enhancer {
+  enhance: (source: SourceImage, settings: EnhanceSettings, options?: EnhanceJobOptions) => Promise<EnhanceResult>;
+  /** Suggested adjustments from the histogram and colours of the cropped and turned source, see analyzeBitmap */
+  analyze: (source: SourceImage, settings: AnalysisSettings, options?: Pick<EnhanceJobOptions, 'signal'>) => Promise<AutoAdjustments>;
+  /** Stops the worker; pending jobs are rejected */
+  dispose: () => void;
+}
+
+interface PendingJob {
+  resolve: (result: EnhanceResult | AutoAdjustments) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: EnhanceProgress) => void;
+}
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+/** Runs the enhance pipeline in a dedicated worker so decoding and encoding never block the UI. */
+export const createEnhancer = (): Enhancer => {
+  const worker = new Worker(new URL('./enhance.worker.ts', import.meta.url), { type: 'module' });
+  const jobs = new Map<number, PendingJob>();
+  // The worker keeps the last decoded source; a stable key per source lets it reuse that
+  const sourceKeys = new WeakMap<SourceImage, number>();
+  let nextId = 0;
+
+  const post = (request: EnhanceRequest, transfer: Transferable[] = []) => worker.postMessage(request, { transfer });
+
+  worker.onmessage = (event: MessageEvent<EnhanceResponse>) => {
+    const response = event.data;
+    const job = jobs.get(response.id);
+    if (!job) return;
+    if (response.type === 'progress') {
+      job.onProgress?.(response.progress);
+      return;
+    }
+    jobs.delete(response.id);
+    if (response.type === 'done') job.resolve(response.result);
+    else if (response.type === 'analyzed') job.resolve(response.analysis);
+    else job.reject(new Error(response.message));
+  };
+  worker.onerror = () => {
+    for (const job of jobs.values()) job.reject(new Error('Image processing stopped unexpectedly'));
+    jobs.clear();
+  };
+
+  // The source stays with the caller for later runs, so the worker gets a transferable copy
+  const postSource = (request: Extract<EnhanceRequest, { source: SourceImage }>) => {
+    const bytes = request.source.bytes.slice();
+    post({ ...request, source: { ...request.source, bytes } }, [bytes.buffer]);
+  };
+
+  const keyFor = (source: SourceImage, id: number) => {
+    const key = sourceKeys.get(source) ?? id;
+    sourceKeys.set(source, key);
+    return key;
+  };
+
+  // Aborting drops the job here and in the worker, so a stale result is never delivered
+  const start = (job: PendingJob, signal: AbortSignal | undefined, send: (id: number) => void) => {
+    if (signal?.aborted) {
+      job.reject(new DOMException('Enhancement superseded', 'AbortError'));
+      return;
+    }
+    const id = nextId++;
+    jobs.set(id, job);
+
+    signal?.addEventListener('abort', () => {
+      if (!jobs.delete(id)) return;
+      post({ type: 'cancel', id });
+      job.reject(new DOMException('Enhancement superseded', 'AbortError'));
+    }, { once: true });
+
+    send(id);
+  };
+
+  const enhance = (source: SourceImage, settings: EnhanceSettings, { preview = false, onProgress, signal }: EnhanceJobOptions = {}) =>
+    new Promise<EnhanceResult>((resolve, reject) =>
+      start({ resolve: resolve as PendingJob['resolve'], reject, onProgress }, signal, (id) =>
+        postSource({ type: 'enhance', id, key: keyFor(source, id), source, settings, preview }),
+      ),
+    );
+
+  const analyze = (source: SourceImage, settings: AnalysisSettings, { signal }: Pick<EnhanceJobOptions, 'signal'> = {}) =>
+    new Promise<AutoAdjustments>((resolve, reject) =>
+      start({ resolve: resolve as PendingJob['resolve'], reject }, signal, (id) => postSource({ type: 'analyze', id, key: keyFor(source, id), source, settings })),
+    );
+
+  const dispose = () => {
+    worker.terminate();
+    for (const job of jobs.values()) job.reject(new DOMException('Enhancer disposed', 'AbortError'));
+    jobs.clear();
+  };
+
+  return { enhance, analyze, dispose };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_EXPORT_OPTIONS, EXPORT_FORMATS, type ExportFormat } from "@/lib/export-format";
+import { displayCopy } from "./enhance";
+
+// Records what it was asked to encode; node has no OffscreenCanvas
+const fakeCanvas = () => {
+  const requests: ImageEncodeOptions[] = [];
+  const canvas = {
+    convertToBlob: async (options: ImageEncodeOptions) => {
+      requests.push(options);
+      return new Blob([new Uint8Array(4)], { type: options.type });
+    },
+  } as unknown as OffscreenCanvas;
+  return { canvas, requests };
+};
+
+const output = (format: ExportFormat) => ({ ...DEFAULT_EXPORT_OPTIONS, format });
+
+describe('displayCopy', () => {
+  it('encodes TIFF output as JPEG, or PNG with transparency, for the screen', async () => {
+    const opaque = fakeCanvas();
+    expect((await displayCopy(opaque.canvas, output('tiff'), false, 85))?.type).toBe('image/jpeg');
+    expect(opaque.requests).toEqual([{ type: 'image/jpeg', quality: 0.85 }]);
+
+    const translucent = fakeCanvas();
+    expect((await displayCopy(translucent.canvas, output('tiff'), true, 85))?.type).toBe('image/png');
+  });
+
+  it.each(EXPORT_FORMATS.filter((info) => info.displayable).map((info) => info.value))('leaves %s output to be shown as it is', async (format) => {
+    const { canvas, requests } = fakeCanvas();
+    expect(await displayCopy(canvas, output(format), true, 85)).toBeUndefined();
+    expect(requests).toEqual([]);
+  });
+});
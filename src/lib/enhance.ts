@@ -0,0 +1,428 @@
+import { encodeImage } from "@/lib/encoders/encode";
+import { MIN_TARGET_QUALITY, encodeToSize, type TargetSizeReport } from "@/lib/encoders/target-size";
+import { formatInfo, matchesSourceEncoding, usesQuality, type ExportOptions } from "@/lib/export-format";
+import { ANALYSIS_MAX_EDGE, analyzeImage, type AutoAdjustments } from "@/lib/filters/auto-enhance";
+import { clampCrop, cropIsFull, type CropRect } from "@/lib/crop";
+import { applyColor, colorIsIdentity, type ColorSettings } from "@/lib/filters/color";
+import { blockGridOrigin, denoise, denoiseActive, type DenoiseSettings } from "@/lib/filters/denoise";
+import { resample, type ResampleFilter, type ResampleOptions, type ResampleReport } from "@/lib/filters/resample";
+import { resolveSharpening, sharpen, type SharpenSettings, type UnsharpMask } from "@/lib/filters/sharpen";
+import { applyTone, toneIsIdentity, type ToneSettings } from "@/lib/filters/tone";
+import { superResolutionAvailable, superResolve, type SuperResolutionScale } from "@/lib/filters/super-resolution";
+import type { SourceFormatInfo } from "@/lib/metadata/format";
+import { orientationTransform, orientedSize, type Orientation } from "@/lib/metadata/orientation";
+import type { Resolution } from "@/lib/metadata/resolution";
+import { writeResolution } from "@/lib/metadata/write-resolution";
+import { transformIsIdentity, transformMatrix, transformedResolution, transformedSize, type TransformSettings } from "@/lib/transform";
+import { planResize, type ResizeMode, type ResizePlan } from "@/lib/print-size";
+
+/** What processing needs to know about an uploaded file */
+export interface SourceImage {
+  /** The file with its EXIF orientation neutralised; this is what gets decoded */
+  bytes: Uint8Array;
+  mimeType: string;
+  fileSize: number;
+  dpi: Resolution;
+  orientation: Orientation;
+  format: SourceFormatInfo;
+}
+
+/** The editor settings applied to every image, single or batch. */
+export interface EnhanceSettings {
+  /** Exposure, levels, curves and the rest, applied after noise reduction */
+  tone: ToneSettings;
+  /** White balance, hue and saturation, applied after tone */
+  color: ColorSettings;
+  quality: number;
+  targetDpi: number;
+  resizeMode: ResizeMode;
+  /** Region kept, drawn before anything else; null keeps the whole picture */
+  crop: CropRect | null;
+  /** Turns, flips and straightening of the cropped picture */
+  transform: TransformSettings;
+  /** Print width in inches; null keeps the physical width of the (cropped) source */
+  printWidth: number | null;
+  /** Applied at source size, before any resize */
+  denoise: DenoiseSettings;
+  resampling: ResampleOptions;
+  /** Enlarge through the super-resolution model at this scale before resampling; null uses the filter alone */
+  superResolution: SuperResolutionScale | null;
+  /** Applied at output size, after resampling */
+  sharpening: SharpenSettings;
+  output: ExportOptions;
+}
+
+export interface EnhanceResult {
+  bytes: Uint8Array;
+  /** Upright size of the decoded source */
+  sourceWidth: number;
+  sourceHeight: number;
+  /** The region kept, in whole upright source pixels; absent when uncropped */
+  crop?: CropRect;
+  /** Absent when the picture was not turned or flipped */
+  transform?: TransformSettings;
+  width: number;
+  height: number;
+  targetSize?: TargetSizeReport;
+  /** True when the source file was reused instead of re-encoded */
+  passthrough?: boolean;
+  /** A PNG or JPEG of the same picture, present when browsers cannot show `bytes` */
+  display?: Blob;
+  /** How the main resize ran and how long it took; absent when the size was kept */
+  resampling?: ResampleReport & { filter: ResampleFilter; milliseconds: number };
+  /** Set when an enlargement asked for the model; `fallback` means it could not load */
+  superResolution?: { scale: SuperResolutionScale; fallback: boolean };
+  /** The unsharp mask applied, with preset values worked out for the output DPI */
+  sharpening?: UnsharpMask;
+}
+
+export type EnhanceStage = 'decode' | 'render' | 'denoise' | 'tone' | 'upscale' | 'resample' | 'sharpen' | 'encode';
+
+export const STAGE_LABELS: Record<EnhanceStage, string> = {
+  decode: 'Decoding',
+  render: 'Rendering',
+  denoise: 'Reducing noise',
+  tone: 'Applying adjustments',
+  upscale: 'Upscaling',
+  resample: 'Resampling',
+  sharpen: 'Sharpening',
+  encode: 'Encoding',
+};
+
+export interface EnhanceProgress {
+  stage: EnhanceStage;
+  /** 0–1 across the whole job */
+  fraction: number;
+}
+
+// Longest edge of the quick renders shown while a slider is being dragged
+export const PREVIEW_MAX_EDGE = 800;
+
+// Where each stage starts on the overall progress bar; encoding dominates unless the model runs
+const STAGE_START: Record<EnhanceStage, number> = { decode: 0, render: 0.1, denoise: 0.15, tone: 0.22, upscale: 0.25, resample: 0.4, sharpen: 0.5, encode: 0.55 };
+
+/** The settings that pick the part of the picture auto enhance looks at */
+export type AnalysisSettings = Pick<EnhanceSettings, 'crop' | 'transform'>;
+
+/**
+ * Messages to the enhance worker. `key` identifies the source so its decode
+ * can be reused; `preview` asks for a quick low-resolution render.
+ */
+export type EnhanceRequest =
+  | { type: 'enhance'; id: number; key: number; source: SourceImage; settings: EnhanceSettings; preview: boolean }
+  | { type: 'analyze'; id: number; key: number; source: SourceImage; settings: AnalysisSettings }
+  | { type: 'cancel'; id: number };
+
+export type EnhanceResponse =
+  | { type: 'progress'; id: number; progress: EnhanceProgress }
+  | { type: 'done'; id: number; result: EnhanceResult }
+  | { type: 'analyzed'; id: number; analysis: AutoAdjustments }
+  | { type: 'error'; id: number; message: string };
+
+/** Thrown through the pipeline when the job it belongs to has been superseded */
+export const ENHANCE_CANCELLED = new Error('Enhancement cancelled');
+
+/** Reports `stage` as `done` (0–1) of the way through it. */
+export const stageProgress = (stage: EnhanceStage, done = 0): EnhanceProgress => {
+  const stages = Object.keys(STAGE_START) as EnhanceStage[];
+  const next = STAGE_START[stages[stages.indexOf(stage) + 1]] ?? 1;
+  return { stage, fraction: STAGE_START[stage] + (next - STAGE_START[stage]) * Math.min(1, done) };
+};
+
+/** Resizes through our own resampler, so a setting gives the same pixels in every browser. */
+const resampleCanvas = (source: OffscreenCanvas, width: number, height: number, options: ResampleOptions) => {
+  const sourceCtx = source.getContext('2d');
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!sourceCtx || !ctx) throw new Error('Canvas 2D context unavailable');
+  const { image, report } = resample(sourceCtx.getImageData(0, 0, source.width, source.height), width, height, options);
+  ctx.putImageData(image, 0, 0);
+  return { canvas, report };
+};
+
+/**
+ * Enlarges by `scale` through the super-resolution model. The network only
+ * sees RGB, so transparency is enlarged with the resampler alongside.
+ */
+const upscaleCanvas = async (
+  source: OffscreenCanvas,
+  scale: SuperResolutionScale,
+  hasAlpha: boolean,
+  options: ResampleOptions,
+  onTile: (done: number) => void,
+) => {
+  const sourceCtx = source.getContext('2d');
+  const canvas = new OffscreenCanvas(source.width * scale, source.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!sourceCtx || !ctx) throw new Error('Canvas 2D context unavailable');
+  const image = sourceCtx.getImageData(0, 0, source.width, source.height);
+  const alpha = hasAlpha ? resample(image, canvas.width, canvas.height, options).image : undefined;
+  ctx.putImageData(await superResolve(image, scale, onTile, alpha), 0, 0);
+  return canvas;
+};
+
+/**
+ * Runs an in-place filter over the canvas pixels. Every adjustment goes
+ * through pixel data rather than ctx.filter, so results do not depend on the
+ * browser.
+ */
+const editPixels = (canvas: OffscreenCanvas, edit: (image: ImageData) => void) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  edit(image);
+  ctx.putImageData(image, 0, 0);
+};
+
+/** Noise settings as they apply to this source; only JPEGs have blocks to remove */
+const sourceDenoise = (source: SourceImage, settings: DenoiseSettings): DenoiseSettings =>
+  source.format.format === 'jpeg' ? settings : { ...settings, deblock: false };
+
+// Position of a JPEG block boundary within its 8-pixel period
+const blockPhase = (value: number) => ((Math.round(value) % 8) + 8) % 8;
+
+/**
+ * Draws the decoded source onto a new `width` × `height` canvas as the
+ * export sees it: upright, cropped to `region` (upright source pixels) and
+ * turned by `transform`. `background` fills what straightening leaves empty.
+ */
+const drawShaped = (
+  bitmap: ImageBitmap,
+  orientation: Orientation,
+  region: CropRect,
+  transform: TransformSettings,
+  width: number,
+  height: number,
+  background: string | null,
+) => {
+  const { width: sourceWidth, height: sourceHeight } = orientedSize(bitmap.width, bitmap.height, orientation);
+  const shaped = transformedSize(region.width, region.height, transform);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  // One draw bakes everything in; the matrices apply from the last one set
+  // to the first. The EXIF orientation turns the stored image upright, the
+  // crop moves its region to the origin, then the user's turns and flips
+  // and the scale to the canvas follow.
+  ctx.setTransform(width / shaped.width, 0, 0, height / shaped.height, 0, 0);
+  ctx.transform(...transformMatrix(region.width, region.height, transform));
+  ctx.translate(-region.x, -region.y);
+  ctx.transform(...orientationTransform(orientation, sourceWidth, sourceHeight));
+  ctx.drawImage(bitmap, 0, 0);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  return canvas;
+};
+
+const cropRegion = (crop: CropRect | null, width: number, height: number): CropRect =>
+  crop ? clampCrop(crop, width, height) : { x: 0, y: 0, width, height };
+
+/**
+ * Auto enhance suggestions for the picture as it will be exported: cropped
+ * and turned, reduced to ANALYSIS_MAX_EDGE, before any other edit.
+ * Straightened corners stay transparent, so they do not count.
+ */
+export const analyzeBitmap = (bitmap: ImageBitmap, source: SourceImage, settings: AnalysisSettings): AutoAdjustments => {
+  const { width: sourceWidth, height: sourceHeight } = orientedSize(bitmap.width, bitmap.height, source.orientation);
+  const region = cropRegion(settings.crop, sourceWidth, sourceHeight);
+  const shaped = transformedSize(region.width, region.height, settings.transform);
+  const scale = Math.min(1, ANALYSIS_MAX_EDGE / Math.max(shaped.width, shaped.height));
+  const width = Math.max(1, Math.round(shaped.width * scale));
+  const height = Math.max(1, Math.round(shaped.height * scale));
+  const canvas = drawShaped(bitmap, source.orientation, region, settings.transform, width, height, null);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  return analyzeImage(ctx.getImageData(0, 0, width, height));
+};
+
+// PNG keeps transparency visible; everything else is shown as JPEG, which is fastest
+const encodeForDisplay = (canvas: OffscreenCanvas, hasAlpha: boolean, quality: number) =>
+  canvas.convertToBlob({ type: hasAlpha ? 'image/png' : 'image/jpeg', quality: quality / 100 });
+
+/**
+ * A copy of the output to put on screen, for formats an <img> cannot show.
+ * The comparison, histogram and neutral picker use it; downloads keep the
+ * bytes in the chosen format.
+ */
+export const displayCopy = async (canvas: OffscreenCanvas, output: ExportOptions, hasAlpha: boolean, quality: number): Promise<Blob | undefined> =>
+  formatInfo(output.format).displayable ? undefined : encodeForDisplay(canvas, hasAlpha, quality);
+
+// The decoded source as it is stored, for a display copy of a file handed back unchanged
+const drawBitmap = (bitmap: ImageBitmap) => {
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(bitmap, 0, 0);
+  return canvas;
+};
+
+/**
+ * Whether the source file can be handed back as it is: no setting touches the
+ * pixels and the output would be the same kind of file, so a re-encode could
+ * only lose quality.
+ */
+const canPassThrough = (source: SourceImage, settings: EnhanceSettings, plan: ResizePlan, width: number, height: number) =>
+  settings.output.keepOriginalEncoding &&
+  (settings.crop === null || cropIsFull(clampCrop(settings.crop, width, height), width, height)) &&
+  transformIsIdentity(settings.transform) &&
+  toneIsIdentity(settings.tone) &&
+  colorIsIdentity(settings.color) &&
+  !denoiseActive(sourceDenoise(source, settings.denoise)) &&
+  resolveSharpening(settings.sharpening, plan.dpiX) === null &&
+  // The stored pixels of a rotated photo are sideways; only a redraw turns them upright
+  source.orientation === 1 &&
+  plan.width === width &&
+  plan.height === height &&
+  matchesSourceEncoding(settings.output, source.format);
+
+/**
+ * Applies orientation, crop, turns and straightening, noise reduction,
+ * tone, colour, resize and sharpening settings to the decoded source on an
+ * OffscreenCanvas and encodes the result with the target DPI declared.
+ * `onProgress` may throw to abandon the job between steps.
+ *
+ * A preview is drawn no larger than PREVIEW_MAX_EDGE and encoded with the
+ * browser's own codec, skipping the chosen format and any size limit; it is
+ * for looking at, not for download. It never runs the super-resolution model.
+ */
+export const enhanceBitmap = async (
+  bitmap: ImageBitmap,
+  source: SourceImage,
+  settings: EnhanceSettings,
+  onProgress: (progress: EnhanceProgress) => void,
+  preview = false,
+): Promise<EnhanceResult> => {
+  const { orientation, dpi: originalDpi } = source;
+  const { width: sourceWidth, height: sourceHeight } = orientedSize(bitmap.width, bitmap.height, orientation);
+  const region = cropRegion(settings.crop, sourceWidth, sourceHeight);
+  const crop = cropIsFull(region, sourceWidth, sourceHeight) ? undefined : region;
+  const { transform } = settings;
+  const turned = transformIsIdentity(transform) ? undefined : transform;
+  const shaped = transformedSize(region.width, region.height, transform);
+  const dpi = transformedResolution(originalDpi, transform);
+
+  // Work out output pixels and density for the selected resize mode, from the cropped and turned picture
+  const printWidthIn = settings.printWidth ?? shaped.width / dpi.x;
+  const plan = planResize(settings.resizeMode, shaped.width, shaped.height, dpi, settings.targetDpi, printWidthIn);
+  if (!preview && canPassThrough(source, settings, plan, sourceWidth, sourceHeight)) {
+    // Only the declared density changes; metadata is rewritten on download like any other output
+    const bytes = writeResolution(source.bytes, plan.dpiX, plan.dpiY);
+    const { maxFileSize } = settings.output;
+    if (!maxFileSize || bytes.length <= maxFileSize) {
+      // Passed-through files have upright pixels, so the bitmap is drawn as it is
+      const display = formatInfo(settings.output.format).displayable
+        ? undefined
+        : await encodeForDisplay(drawBitmap(bitmap), source.format.hasAlpha, settings.quality);
+      return { bytes, sourceWidth, sourceHeight, width: plan.width, height: plan.height, passthrough: true, display };
+    }
+  }
+  const previewScale = preview ? Math.min(1, PREVIEW_MAX_EDGE / Math.max(plan.width, plan.height)) : 1;
+  plan.width = Math.max(1, Math.round(plan.width * previewScale));
+  plan.height = Math.max(1, Math.round(plan.height * previewScale));
+
+  onProgress(stageProgress('render'));
+  // Previews let the browser scale as it draws, which is fast; full renders
+  // are drawn at source size and resampled with the chosen filter afterwards
+  const drawWidth = preview ? plan.width : shaped.width;
+  const drawHeight = preview ? plan.height : shaped.height;
+  // Corners a straightened photo leaves empty would turn black in formats without alpha
+  const background = transform.straighten !== 0 && !transform.autoCrop && !source.format.hasAlpha ? '#fff' : null;
+  let canvas = drawShaped(bitmap, orientation, region, transform, drawWidth, drawHeight, background);
+
+  const denoiseSettings = sourceDenoise(source, settings.denoise);
+  if (denoiseActive(denoiseSettings)) {
+    onProgress(stageProgress('denoise'));
+    // JPEG blocks only line up with a render at source size, and not once
+    // straightened; crops, turns and flips move the grid along with the picture
+    const origin = blockGridOrigin(orientation, sourceWidth, sourceHeight);
+    const [a, b, c, d, e, f] = transformMatrix(region.width, region.height, transform);
+    const x = origin.x - region.x;
+    const y = origin.y - region.y;
+    const grid =
+      preview || transform.straighten !== 0 ? null : { x: blockPhase(a * x + c * y + e), y: blockPhase(b * x + d * y + f) };
+    editPixels(canvas, (image) => denoise(image, denoiseSettings, grid));
+  }
+
+  if (!toneIsIdentity(settings.tone) || !colorIsIdentity(settings.color)) {
+    onProgress(stageProgress('tone'));
+    editPixels(canvas, (image) => {
+      applyTone(image, settings.tone);
+      applyColor(image, settings.color);
+    });
+  }
+
+  let resampleOptions = settings.resampling;
+  let superResolution: EnhanceResult['superResolution'];
+  if (!preview && settings.superResolution && (plan.width > shaped.width || plan.height > shaped.height)) {
+    const scale = settings.superResolution;
+    if (await superResolutionAvailable(scale)) {
+      onProgress(stageProgress('upscale'));
+      canvas = await upscaleCanvas(canvas, scale, source.format.hasAlpha, resampleOptions, (done) =>
+        onProgress(stageProgress('upscale', done)),
+      );
+      superResolution = { scale, fallback: false };
+    } else {
+      // Without the model the enlargement uses the sharpest of our filters instead
+      resampleOptions = { ...resampleOptions, filter: 'lanczos3' };
+      superResolution = { scale, fallback: true };
+    }
+  }
+
+  // The model enlarges by a fixed factor; the filter takes that to the exact size
+  let resampling: EnhanceResult['resampling'];
+  if (canvas.width !== plan.width || canvas.height !== plan.height) {
+    onProgress(stageProgress('resample'));
+    const started = performance.now();
+    const resized = resampleCanvas(canvas, plan.width, plan.height, resampleOptions);
+    canvas = resized.canvas;
+    resampling = { ...resized.report, filter: resampleOptions.filter, milliseconds: performance.now() - started };
+  }
+
+  const sharpening = resolveSharpening(settings.sharpening, plan.dpiX) ?? undefined;
+  if (sharpening) {
+    onProgress(stageProgress('sharpen'));
+    // A preview is smaller than the output, so its radius shrinks with it
+    editPixels(canvas, (image) => sharpen(image, { ...sharpening, radius: sharpening.radius * previewScale }));
+  }
+
+  // Encode in the chosen format, declaring the target DPI in its headers. With
+  // a size limit the encoder searches quality (and optionally dimensions) itself.
+  onProgress(stageProgress('encode'));
+  if (preview) {
+    const blob = await encodeForDisplay(canvas, source.format.hasAlpha, settings.quality);
+    return { bytes: new Uint8Array(await blob.arrayBuffer()), sourceWidth, sourceHeight, crop, transform: turned, width: plan.width, height: plan.height };
+  }
+
+  const { output } = settings;
+  const encodeSettings = { quality: settings.quality, dpiX: plan.dpiX, dpiY: plan.dpiY };
+  try {
+    if (output.maxFileSize) {
+      // A binary search over the quality range; downscale passes run past this and hold near the end
+      const expected = usesQuality(output) ? Math.ceil(Math.log2(Math.max(1, settings.quality - MIN_TARGET_QUALITY + 2))) : 1;
+      const fitted = await encodeToSize(canvas, output, encodeSettings, {
+        maxBytes: output.maxFileSize,
+        allowDownscale: output.allowDownscale,
+        resize: (from, width, height) => resampleCanvas(from, width, height, resampleOptions).canvas,
+        onAttempt: (iterations) => onProgress(stageProgress('encode', Math.min(0.95, iterations / expected))),
+      });
+      // Shown at the size the limit settled on
+      const fittedCanvas = fitted.width === canvas.width && fitted.height === canvas.height
+        ? canvas
+        : resampleCanvas(canvas, fitted.width, fitted.height, resampleOptions).canvas;
+      const display = await displayCopy(fittedCanvas, output, source.format.hasAlpha, settings.quality);
+      return { ...fitted, sourceWidth, sourceHeight, crop, transform: turned, targetSize: fitted.report, resampling, superResolution, sharpening, display };
+    }
+    const bytes = await encodeImage(canvas, output, encodeSettings);
+    const display = await displayCopy(canvas, output, source.format.hasAlpha, settings.quality);
+    return { bytes, sourceWidth, sourceHeight, crop, transform: turned, width: plan.width, height: plan.height, resampling, superResolution, sharpening, display };
+  } catch (error) {
+    if (error === ENHANCE_CANCELLED) throw error;
+    throw new Error(`Could not encode the image as ${formatInfo(output.format).label}`);
+  }
+};
@@ -0,0 +1,111 @@
+import {
+  ENHANCE_CANCELLED,
+  analyzeBitmap,
+  enhanceBitmap,
+  stageProgress,
+  type EnhanceProgress,
+  type EnhanceRequest,
+  type EnhanceResponse,
+  type SourceImage,
+} from "./enhance";
+
+// Slider drags re-run the same source many times, so its last decode is kept.
+// Jobs count their use of it, and a replaced decode is closed once the last
+// job still drawing it has settled.
+interface Decoded {
+  key: number;
+  bitmap: ImageBitmap;
+  users: number;
+}
+
+let decoded: Decoded | null = null;
+// Cancels are only recorded for jobs still running, so none are left behind
+const active = new Set<number>();
+const cancelled = new Set<number>();
+
+const post = (response: EnhanceResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+
+const acquire = async (key: number, source: SourceImage): Promise<Decoded> => {
+  let entry = decoded;
+  if (entry?.key !== key) {
+    const bitmap = await createImageBitmap(new Blob([source.bytes], { type: source.mimeType })).catch(() => {
+      throw new Error(`This browser cannot decode ${source.format.label} images`);
+    });
+    const previous = decoded;
+    entry = { key, bitmap, users: 0 };
+    decoded = entry;
+    if (previous && previous.users === 0) previous.bitmap.close();
+  }
+  entry.users++;
+  return entry;
+};
+
+const release = (entry: Decoded) => {
+  entry.users--;
+  if (entry.users === 0 && entry !== decoded) entry.bitmap.close();
+};
+
+// Runs `work` on the decoded source, holding it until the job settles
+const withSource = async <T>(key: number, source: SourceImage, work: (bitmap: ImageBitmap) => Promise<T>) => {
+  const entry = await acquire(key, source);
+  try {
+    return await work(entry.bitmap);
+  } finally {
+    release(entry);
+  }
+};
+
+const fail = (id: number, error: unknown) => {
+  if (error === ENHANCE_CANCELLED || cancelled.has(id)) return;
+  post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+};
+
+const enhance = async ({ id, key, source, settings, preview }: Extract<EnhanceRequest, { type: 'enhance' }>) => {
+  // Progress reports double as cancellation points: a superseded job stops at its next one
+  const report = (progress: EnhanceProgress) => {
+    if (cancelled.has(id)) throw ENHANCE_CANCELLED;
+    post({ type: 'progress', id, progress });
+  };
+
+  try {
+    report(stageProgress('decode'));
+    const result = await withSource(key, source, (bitmap) => enhanceBitmap(bitmap, source, settings, report, preview));
+    if (cancelled.has(id)) return;
+    post({ type: 'done', id, result }, [result.bytes.buffer]);
+  } catch (error) {
+    fail(id, error);
+  }
+};
+
+const analyze = async ({ id, key, source, settings }: Extract<EnhanceRequest, { type: 'analyze' }>) => {
+  try {
+    const analysis = await withSource(key, source, async (bitmap) => {
+      if (cancelled.has(id)) throw ENHANCE_CANCELLED;
+      return analyzeBitmap(bitmap, source, settings);
+    });
+    if (cancelled.has(id)) return;
+    post({ type: 'analyzed', id, analysis });
+  } catch (error) {
+    fail(id, error);
+  }
+};
+
+// Tracks a job from arrival to settling, so a cancel can tell whether it is still running
+const run = (id: number, job: Promise<void>) => {
+  active.add(id);
+  job.finally(() => {
+    active.delete(id);
+    cancelled.delete(id);
+  });
+};
+
+self.onmessage = (event: MessageEvent<EnhanceRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    if (active.has(request.id)) cancelled.add(request.id);
+  } else if (request.type === 'analyze') {
+    run(request.id, analyze(request));
+  } else {
+    run(request.id, enhance(request));
+  }
+};
@@ -0,0 +1,104 @@
+import type { PngBitDepth } from "@/lib/encoders/png";
+import type { TiffCompression } from "@/lib/encoders/tiff";
+import type { SourceFormatInfo } from "@/lib/metadata/format";
+
+export type ExportFormat = 'jpeg' | 'png' | 'webp' | 'avif' | 'tiff' | 'bmp';
+
+export interface ExportFormatInfo {
+  value: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  /** Whether browsers show it in an <img>; TIFF only opens in Safari */
+  displayable: boolean;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { value: 'jpeg', label: 'JPG', extension: 'jpg', mimeType: 'image/jpeg', displayable: true },
+  { value: 'png', label: 'PNG', extension: 'png', mimeType: 'image/png', displayable: true },
+  { value: 'webp', label: 'WebP', extension: 'webp', mimeType: 'image/webp', displayable: true },
+  { value: 'avif', label: 'AVIF', extension: 'avif', mimeType: 'image/avif', displayable: true },
+  { value: 'tiff', label: 'TIFF', extension: 'tif', mimeType: 'image/tiff', displayable: false },
+  { value: 'bmp', label: 'BMP', extension: 'bmp', mimeType: 'image/bmp', displayable: true },
+];
+
+export const formatInfo = (format: ExportFormat): ExportFormatInfo =>
+  EXPORT_FORMATS.find((info) => info.value === format) ?? EXPORT_FORMATS[0];
+
+/** Per-format encoder settings. Quality (1–100) is kept separately as it is shared. */
+export interface ExportOptions {
+  format: ExportFormat;
+  pngBitDepth: PngBitDepth;
+  /** zlib level, 0–9 */
+  pngCompression: number;
+  webpLossless: boolean;
+  /** AVIF encoder effort: 0 is slowest and smallest, 10 fastest */
+  avifSpeed: number;
+  tiffCompression: TiffCompression;
+  /** Upper bound for the encoded file in bytes; null encodes at the chosen quality */
+  maxFileSize: number | null;
+  /** Whether the size limit may be met by reducing pixel dimensions too */
+  allowDownscale: boolean;
+  /** Hand back the original file, with only density and metadata rewritten, when nothing would change its pixels */
+  keepOriginalEncoding: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'jpeg',
+  pngBitDepth: 8,
+  pngCompression: 6,
+  webpLossless: false,
+  avifSpeed: 6,
+  tiffCompression: 'lzw',
+  maxFileSize: null,
+  allowDownscale: false,
+  keepOriginalEncoding: true,
+};
+
+/** Whether the quality setting has any effect for these options. */
+export const usesQuality = (options: ExportOptions) =>
+  options.format === 'jpeg' || options.format === 'avif' || (options.format === 'webp' && !options.webpLossless);
+
+/**
+ * Output settings that best match the uploaded file: stay in the source
+ * format where we can write it, keep lossless sources lossless and 16-bit
+ * PNGs 16-bit. GIF, BMP and ICO become PNG; HEIC, which we cannot encode,
+ * becomes JPEG.
+ */
+export const defaultExportOptions = (source: SourceFormatInfo): ExportOptions => {
+  switch (source.format) {
+    case 'png':
+      return { ...DEFAULT_EXPORT_OPTIONS, format: 'png', pngBitDepth: (source.bitDepth ?? 8) > 8 ? 16 : 8 };
+    case 'gif':
+    case 'bmp':
+    case 'ico':
+      return { ...DEFAULT_EXPORT_OPTIONS, format: 'png' };
+    case 'webp':
+      return { ...DEFAULT_EXPORT_OPTIONS, format: 'webp', webpLossless: source.lossless === true };
+    case 'avif':
+      return { ...DEFAULT_EXPORT_OPTIONS, format: 'avif' };
+    case 'tiff':
+      return { ...DEFAULT_EXPORT_OPTIONS, format: source.lossless === false ? 'jpeg' : 'tiff' };
+    default:
+      // JPEG sources stay JPEG; a transparent file of unknown type keeps its alpha as PNG
+      return { ...DEFAULT_EXPORT_OPTIONS, format: source.hasAlpha ? 'png' : 'jpeg' };
+  }
+};
+
+/**
+ * Whether these options would write the same kind of file as the source, so
+ * the source can stand in for a fresh encode. Limited to the containers whose
+ * metadata embedMetadata knows how to replace.
+ */
+export const matchesSourceEncoding = (options: ExportOptions, source: SourceFormatInfo): boolean => {
+  switch (source.format) {
+    case 'jpeg':
+      return options.format === 'jpeg';
+    case 'png':
+      return options.format === 'png' && (source.bitDepth ?? 8) > 8 === (options.pngBitDepth === 16);
+    case 'webp':
+      return options.format === 'webp' && source.lossless === options.webpLossless;
+    default:
+      return false;
+  }
+};
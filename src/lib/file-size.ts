@@ -0,0 +1,14 @@
+export type SizeUnit = 'KB' | 'MB';
+
+// Binary units, matching how the stats cards have always shown sizes
+export const BYTES_PER_UNIT: Record<SizeUnit, number> = {
+  KB: 1024,
+  MB: 1024 * 1024,
+};
+
+export const toBytes = (value: number, unit: SizeUnit) => Math.round(value * BYTES_PER_UNIT[unit]);
+
+export const fromBytes = (bytes: number, unit: SizeUnit) => bytes / BYTES_PER_UNIT[unit];
+
+export const formatFileSize = (bytes: number): string =>
+  bytes >= BYTES_PER_UNIT.MB ? `${fromBytes(bytes, 'MB').toFixed(2)} MB` : `${fromBytes(bytes, 'KB').toFixed(1)} KB`;
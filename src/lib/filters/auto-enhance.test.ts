@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { analyzeImage, withAutoTone } from "./auto-enhance";
+import { DEFAULT_TONE_SETTINGS, type ToneSettings } from "./tone";
+
+// A dull grey ramp: levels well inside 0–255 and little spread
+const flatImage = () => {
+  const data = new Uint8ClampedArray(64 * 64 * 4);
+  for (let i = 0; i < 64 * 64; i++) {
+    const level = 90 + (i % 64);
+    data.set([level, level, level, 255], i * 4);
+  }
+  return { width: 64, height: 64, data, colorSpace: 'srgb' } as ImageData;
+};
+
+describe('analyzeImage', () => {
+  it('stretches the levels of a flat image and adds an S-curve', () => {
+    const { tone } = analyzeImage(flatImage());
+    expect(tone.inputBlack).toBeGreaterThan(0);
+    expect(tone.inputWhite).toBeLessThan(255);
+    expect(tone.curve[1].y).toBeLessThan(64);
+    expect(tone.curve[2].y).toBeGreaterThan(192);
+  });
+});
+
+describe('withAutoTone', () => {
+  it('replaces levels and the master curve but keeps the other tone settings', () => {
+    const blueCurve = [{ x: 0, y: 0 }, { x: 128, y: 150 }, { x: 255, y: 255 }];
+    const current: ToneSettings = {
+      ...DEFAULT_TONE_SETTINGS,
+      exposure: 0.5,
+      brightness: 120,
+      contrast: 90,
+      shadows: 30,
+      curves: { ...DEFAULT_TONE_SETTINGS.curves, blue: blueCurve },
+    };
+    const { tone } = analyzeImage(flatImage());
+    const next = withAutoTone(current, tone);
+    expect(next).toMatchObject({ exposure: 0.5, brightness: 120, contrast: 90, shadows: 30 });
+    expect(next).toMatchObject({ inputBlack: tone.inputBlack, inputWhite: tone.inputWhite, gamma: tone.gamma });
+    expect(next.curves.master).toEqual(tone.curve);
+    expect(next.curves.blue).toEqual(blueCurve);
+  });
+});
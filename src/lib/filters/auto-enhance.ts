@@ -0,0 +1,136 @@
+import { DEFAULT_COLOR_SETTINGS, neutralWhiteBalance, type ColorSettings } from "./color";
+import type { SharpenSettings } from "./sharpen";
+import { DEFAULT_TONE_SETTINGS, type CurvePoint, type ToneSettings } from "./tone";
+
+/**
+ * The tone controls auto enhance sets: levels and the master curve.
+ * Exposure, brightness, contrast and the rest stay as the user left them.
+ */
+export type AutoTone = Pick<ToneSettings, 'inputBlack' | 'inputWhite' | 'gamma'> & { curve: CurvePoint[] };
+
+/** Settings worked out from the image, meant to fill the sliders as a starting point */
+export interface AutoAdjustments {
+  tone: AutoTone;
+  color: ColorSettings;
+  sharpening: SharpenSettings;
+}
+
+// Longest edge the image is reduced to before analysis; statistics barely change below full size
+export const ANALYSIS_MAX_EDGE = 512;
+
+// Share of pixels allowed to clip at each end when setting the black and white points
+const CLIP_FRACTION = 0.005;
+// Auto levels never move the points further in than this, so dark or bright scenes stay so
+const MAX_BLACK_POINT = 60;
+const MIN_WHITE_POINT = 195;
+// The midtone gamma aims the median here, within this range
+const TARGET_MEDIAN = 0.45;
+const GAMMA_RANGE = [0.7, 1.5];
+// A flat image gets an S-curve until its luma spread would reach this standard
+// deviation in levels; the curve moves its quarter points by at most MAX_S_CURVE.
+// Linear contrast would be undone by the black and white points.
+const TARGET_SPREAD = 55;
+const MAX_S_CURVE = 12;
+// Pixels count as probably neutral when their chroma is below this share of their brightest channel
+const NEUTRAL_CHROMA = 0.25;
+// How much of the measured cast is removed; a full correction looks clinical
+const WHITE_BALANCE_STRENGTH = 0.7;
+const MAX_WHITE_BALANCE = 60;
+
+const NEUTRAL_TONE: AutoTone = {
+  inputBlack: DEFAULT_TONE_SETTINGS.inputBlack,
+  inputWhite: DEFAULT_TONE_SETTINGS.inputWhite,
+  gamma: DEFAULT_TONE_SETTINGS.gamma,
+  curve: DEFAULT_TONE_SETTINGS.curves.master,
+};
+
+const MILD_SHARPENING: SharpenSettings = { mode: 'custom', amount: 60, radius: 0.8, threshold: 2, edgeAware: true };
+
+const percentile = (histogram: Float64Array, total: number, fraction: number) => {
+  let seen = 0;
+  for (let level = 0; level < histogram.length; level++) {
+    seen += histogram[level];
+    if (seen >= total * fraction) return level;
+  }
+  return histogram.length - 1;
+};
+
+/**
+ * Auto levels (black point, white point and midtone gamma), auto contrast
+ * and white balance from the luma histogram and the colour of the image's
+ * near-neutral midtones, plus mild sharpening.
+ */
+export const analyzeImage = (image: ImageData): AutoAdjustments => {
+  const { data } = image;
+  const histogram = new Float64Array(256);
+  const neutral = [0, 0, 0];
+  let neutralCount = 0;
+  let total = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    // Transparent pixels carry no picture
+    if (data[i + 3] === 0) continue;
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const luma = Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
+    histogram[luma]++;
+    total++;
+    const max = Math.max(r, g, b);
+    if (luma > 50 && luma < 205 && max - Math.min(r, g, b) < max * NEUTRAL_CHROMA) {
+      neutral[0] += r;
+      neutral[1] += g;
+      neutral[2] += b;
+      neutralCount++;
+    }
+  }
+  if (total === 0) return { tone: NEUTRAL_TONE, color: DEFAULT_COLOR_SETTINGS, sharpening: MILD_SHARPENING };
+
+  const inputBlack = Math.min(MAX_BLACK_POINT, percentile(histogram, total, CLIP_FRACTION));
+  const inputWhite = Math.max(MIN_WHITE_POINT, percentile(histogram, total, 1 - CLIP_FRACTION));
+  const range = inputWhite - inputBlack;
+
+  // Median and spread as they will be after the new levels
+  const median = Math.min(0.95, Math.max(0.05, (percentile(histogram, total, 0.5) - inputBlack) / range));
+  const gamma = Math.min(GAMMA_RANGE[1], Math.max(GAMMA_RANGE[0], Math.log(median) / Math.log(TARGET_MEDIAN)));
+  let mean = 0;
+  for (let level = 0; level < 256; level++) mean += level * histogram[level];
+  mean /= total;
+  let variance = 0;
+  for (let level = 0; level < 256; level++) variance += (level - mean) ** 2 * histogram[level];
+  const spread = (Math.sqrt(variance / total) * 255) / range;
+  const lift = Math.round(Math.min(MAX_S_CURVE, Math.max(0, (TARGET_SPREAD - spread) / 2)));
+  const curve = lift
+    ? [
+        { x: 0, y: 0 },
+        { x: 64, y: 64 - lift },
+        { x: 192, y: 192 + lift },
+        { x: 255, y: 255 },
+      ]
+    : NEUTRAL_TONE.curve;
+
+  let color = DEFAULT_COLOR_SETTINGS;
+  // Too few neutral pixels means a colourful scene, where grey-world guesses go wrong
+  if (neutralCount > total * 0.05) {
+    const sample = neutral.map((sum) => sum / neutralCount) as [number, number, number];
+    const balance = neutralWhiteBalance(sample, DEFAULT_COLOR_SETTINGS);
+    const limit = (value: number) =>
+      Math.round(Math.min(MAX_WHITE_BALANCE, Math.max(-MAX_WHITE_BALANCE, value * WHITE_BALANCE_STRENGTH)));
+    color = { ...DEFAULT_COLOR_SETTINGS, temperature: limit(balance.temperature), tint: limit(balance.tint) };
+  }
+
+  return {
+    tone: { inputBlack, inputWhite, gamma: Math.round(gamma * 20) / 20, curve },
+    color,
+    sharpening: MILD_SHARPENING,
+  };
+};
+
+/** `current` with the controls auto enhance owns replaced by its suggestion. */
+export const withAutoTone = (current: ToneSettings, tone: AutoTone): ToneSettings => ({
+  ...current,
+  inputBlack: tone.inputBlack,
+  inputWhite: tone.inputWhite,
+  gamma: tone.gamma,
+  curves: { ...current.curves, master: tone.curve },
+});
@@ -0,0 +1,122 @@
+/**
+ * Colour adjustments, applied in this order after tone: white balance as
+ * per-channel gains in linear light, then hue rotation, saturation and
+ * vibrance around each pixel's luma.
+ */
+export interface ColorSettings {
+  /** −100 cools towards blue, +100 warms towards amber */
+  temperature: number;
+  /** −100 shifts towards green, +100 towards magenta */
+  tint: number;
+  /** Degrees, −180 to 180 */
+  hue: number;
+  /** −100 removes all colour, +100 doubles it */
+  saturation: number;
+  /** Like saturation, but muted colours move more than vivid ones; −100 to 100 */
+  vibrance: number;
+}
+
+export const DEFAULT_COLOR_SETTINGS: ColorSettings = { temperature: 0, tint: 0, hue: 0, saturation: 0, vibrance: 0 };
+
+export const colorIsIdentity = (color: ColorSettings) =>
+  color.temperature === 0 && color.tint === 0 && color.hue === 0 && color.saturation === 0 && color.vibrance === 0;
+
+// Stops of gain per slider unit. Temperature raises red and lowers blue by this
+// much each, so at ±100 they differ by two stops, about daylight against
+// tungsten light; tint moves green by the same amount.
+const STOPS_PER_UNIT = 0.01;
+
+// Rec. 709 luma weights, as the CSS colour filters use; white balance also
+// normalises its gains with them so it does not change brightness
+const LUMA = [0.2126, 0.7152, 0.0722];
+
+const toLinear = (value: number) => (value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4);
+
+const toSrgb = (value: number) => (value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055);
+
+const whiteBalanceGains = (temperature: number, tint: number) => {
+  const gains = [2 ** (temperature * STOPS_PER_UNIT), 2 ** (-tint * STOPS_PER_UNIT), 2 ** (-temperature * STOPS_PER_UNIT)];
+  const norm = gains.reduce((sum, gain, c) => sum + gain * LUMA[c], 0);
+  return gains.map((gain) => gain / norm);
+};
+
+/** Per-channel lookup tables for the white balance gains. */
+const whiteBalanceLuts = (color: ColorSettings): Uint8ClampedArray[] =>
+  whiteBalanceGains(color.temperature, color.tint).map((gain) => {
+    const lut = new Uint8ClampedArray(256);
+    for (let level = 0; level < 256; level++) {
+      lut[level] = toSrgb(Math.min(1, toLinear(level / 255) * gain)) * 255;
+    }
+    return lut;
+  });
+
+/** The hue-rotate matrix of the Filter Effects spec, which keeps luma. */
+const hueMatrix = (degrees: number): number[] => {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.14, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+  ];
+};
+
+/** Applies the colour settings to `image` in place; alpha is kept. */
+export const applyColor = (image: ImageData, color: ColorSettings): void => {
+  const { data } = image;
+  const balance = color.temperature !== 0 || color.tint !== 0 ? whiteBalanceLuts(color) : null;
+  const hue = color.hue !== 0 ? hueMatrix(color.hue) : null;
+  const saturation = 1 + color.saturation / 100;
+  const vibrance = color.vibrance / 100;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i];
+    let g = data[i + 1];
+    let b = data[i + 2];
+    if (balance) {
+      r = balance[0][r];
+      g = balance[1][g];
+      b = balance[2][b];
+    }
+    if (hue) {
+      const hr = hue[0] * r + hue[1] * g + hue[2] * b;
+      const hg = hue[3] * r + hue[4] * g + hue[5] * b;
+      const hb = hue[6] * r + hue[7] * g + hue[8] * b;
+      r = hr;
+      g = hg;
+      b = hb;
+    }
+    let amount = saturation;
+    if (vibrance !== 0) {
+      // How colourful the pixel already is, 0 for grey to 1 for fully saturated
+      const max = Math.max(r, g, b);
+      const chroma = max > 0 ? (max - Math.min(r, g, b)) / max : 0;
+      amount *= 1 + vibrance * (1 - chroma);
+    }
+    if (amount !== 1) {
+      const luma = LUMA[0] * r + LUMA[1] * g + LUMA[2] * b;
+      r = luma + (r - luma) * amount;
+      g = luma + (g - luma) * amount;
+      b = luma + (b - luma) * amount;
+    }
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+};
+
+/**
+ * Temperature and tint that make `sample`, an sRGB colour picked from the
+ * current result, neutral grey. The correction is added to the current white
+ * balance, which is exact since the gains multiply; picking again refines it
+ * when hue or saturation also changed the sample.
+ */
+export const neutralWhiteBalance = (sample: [number, number, number], color: ColorSettings) => {
+  const [lr, lg, lb] = sample.map((level) => Math.log2(Math.max(1e-4, toLinear(level / 255))));
+  const clamp = (value: number) => Math.round(Math.min(100, Math.max(-100, value)));
+  return {
+    temperature: clamp(color.temperature + (lb - lr) / (2 * STOPS_PER_UNIT)),
+    tint: clamp(color.tint + (lg - (lr + lb) / 2) / STOPS_PER_UNIT),
+  };
+};
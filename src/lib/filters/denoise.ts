@@ -0,0 +1,166 @@
+import { orientationTransform, type Orientation } from "@/lib/metadata/orientation";
+
+export interface DenoiseSettings {
+  /** Smoothing of grain in brightness, 0–100 */
+  luma: number;
+  /** Smoothing of colour blotches, 0–100 */
+  chroma: number;
+  /** Smooth the edges of a JPEG's 8×8 compression blocks */
+  deblock: boolean;
+}
+
+export const DEFAULT_DENOISE_SETTINGS: DenoiseSettings = { luma: 0, chroma: 0, deblock: false };
+
+export const denoiseActive = (settings: DenoiseSettings) => settings.luma > 0 || settings.chroma > 0 || settings.deblock;
+
+const BLOCK = 8;
+
+// A step across a block edge is treated as a compression artifact when it is
+// below ALPHA levels and both sides are flat to within BETA, as in H.264's loop filter
+const DEBLOCK_ALPHA = 24;
+const DEBLOCK_BETA = 8;
+
+// Range sigma, in levels, at strength 100
+const MAX_RANGE_SIGMA = 30;
+
+/**
+ * Where the first JPEG block edge falls on each axis of the upright image.
+ * Blocks are laid out from the stored top-left, so a flip or rotation moves
+ * the grid by the remainder of the flipped dimension.
+ */
+export const blockGridOrigin = (orientation: Orientation, width: number, height: number) => {
+  const [, , , , e, f] = orientationTransform(orientation, width, height);
+  return { x: e % BLOCK, y: f % BLOCK };
+};
+
+const toYCbCr = (image: ImageData): Float32Array[] => {
+  const { data } = image;
+  const count = image.width * image.height;
+  const y = new Float32Array(count);
+  const cb = new Float32Array(count);
+  const cr = new Float32Array(count);
+  for (let p = 0, i = 0; p < count; p++, i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    y[p] = 0.299 * r + 0.587 * g + 0.114 * b;
+    cb[p] = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+    cr[p] = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  }
+  return [y, cb, cr];
+};
+
+const fromYCbCr = ([y, cb, cr]: Float32Array[], image: ImageData) => {
+  const { data } = image;
+  for (let p = 0, i = 0; p < y.length; p++, i += 4) {
+    const u = cb[p] - 128;
+    const v = cr[p] - 128;
+    data[i] = y[p] + 1.402 * v;
+    data[i + 1] = y[p] - 0.344136 * u - 0.714136 * v;
+    data[i + 2] = y[p] + 1.772 * u;
+  }
+};
+
+/** Ramps small steps across block edges at `first`, `first + 8`, … along one axis. */
+const deblockEdges = (plane: Float32Array, length: number, lines: number, first: number, along: number, across: number) => {
+  for (let edge = first || BLOCK; edge + 1 < length; edge += BLOCK) {
+    if (edge < 2) continue;
+    for (let line = 0; line < lines; line++) {
+      const q0 = line * across + edge * along;
+      const p0 = q0 - along;
+      const p1 = p0 - along;
+      const q1 = q0 + along;
+      const step = plane[q0] - plane[p0];
+      if (
+        Math.abs(step) >= DEBLOCK_ALPHA ||
+        Math.abs(plane[p1] - plane[p0]) >= DEBLOCK_BETA ||
+        Math.abs(plane[q1] - plane[q0]) >= DEBLOCK_BETA
+      ) {
+        continue;
+      }
+      plane[p1] += step / 6;
+      plane[p0] += step / 3;
+      plane[q0] -= step / 3;
+      plane[q1] -= step / 6;
+    }
+  }
+};
+
+/**
+ * Bilateral filter over `planes` sharing one set of weights: neighbours count
+ * less the further away they are and the more their values differ, so edges
+ * survive while grain is averaged out. `step` spaces the taps to cover a wider
+ * area for the same cost.
+ */
+const bilateral = (planes: Float32Array[], width: number, height: number, radius: number, step: number, rangeSigma: number) => {
+  const spatialSigma = radius * step * 0.6;
+  const taps = (radius * 2 + 1) ** 2;
+  const tapX = new Int32Array(taps);
+  const tapY = new Int32Array(taps);
+  const tapWeight = new Float32Array(taps);
+  for (let dy = -radius, t = 0; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++, t++) {
+      tapX[t] = dx * step;
+      tapY[t] = dy * step;
+      tapWeight[t] = Math.exp(-((dx * dx + dy * dy) * step * step) / (2 * spatialSigma * spatialSigma));
+    }
+  }
+  // Range weights by whole-level difference, summed over the planes
+  const range = new Float32Array(256 * planes.length);
+  for (let i = 0; i < range.length; i++) range[i] = Math.exp(-(i * i) / (2 * rangeSigma * rangeSigma));
+  const maxDifference = range.length - 1;
+
+  const a = planes[0].slice();
+  const b = planes.length > 1 ? planes[1].slice() : null;
+  const reach = radius * step;
+  for (let y = 0; y < height; y++) {
+    const inner = y >= reach && y < height - reach;
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const edge = !inner || x < reach || x >= width - reach;
+      let total = 0;
+      let sumA = 0;
+      let sumB = 0;
+      for (let t = 0; t < taps; t++) {
+        // Past the border the nearest edge pixel stands in
+        const q = edge
+          ? Math.min(height - 1, Math.max(0, y + tapY[t])) * width + Math.min(width - 1, Math.max(0, x + tapX[t]))
+          : p + tapY[t] * width + tapX[t];
+        let difference = Math.abs(a[q] - a[p]);
+        if (b) difference += Math.abs(b[q] - b[p]);
+        const w = tapWeight[t] * range[Math.min(maxDifference, (difference + 0.5) | 0)];
+        total += w;
+        sumA += a[q] * w;
+        if (b) sumB += b[q] * w;
+      }
+      planes[0][p] = sumA / total;
+      if (b) planes[1][p] = sumB / total;
+    }
+  }
+};
+
+/**
+ * Removes JPEG blocking and noise in place, in YCbCr like the JPEG itself:
+ * block edges first, then a bilateral filter on luma and a wider one on the
+ * two chroma planes together. `grid` is the block origin from blockGridOrigin,
+ * or null when the pixels no longer line up with the file's blocks.
+ */
+export const denoise = (image: ImageData, settings: DenoiseSettings, grid: { x: number; y: number } | null): void => {
+  const { width, height } = image;
+  const planes = toYCbCr(image);
+
+  if (settings.deblock && grid) {
+    for (const plane of planes) {
+      deblockEdges(plane, width, height, grid.x, 1, width);
+      deblockEdges(plane, height, width, grid.y, width, 1);
+    }
+  }
+  if (settings.luma > 0) {
+    bilateral([planes[0]], width, height, 2, 1, (settings.luma / 100) * MAX_RANGE_SIGMA);
+  }
+  if (settings.chroma > 0) {
+    // Colour noise is coarser than grain, so the chroma taps are spread twice as far
+    bilateral([planes[1], planes[2]], width, height, 2, 2, (settings.chroma / 100) * MAX_RANGE_SIGMA);
+  }
+  fromYCbCr(planes, image);
+};
@@ -0,0 +1,46 @@
+/** Normalised Gaussian weights out to three sigma on each side. */
+const gaussianKernel = (sigma: number): Float32Array => {
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(radius * 2 + 1);
+  let sum = 0;
+  for (let i = -radius; i <= radius; i++) {
+    kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+    sum += kernel[i + radius];
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= sum;
+  return kernel;
+};
+
+/**
+ * Blurs one channel plane with a separable Gaussian, repeating edge pixels
+ * past the border. Returns a new plane; the input is left alone.
+ */
+export const gaussianBlur = (plane: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+  const kernel = gaussianKernel(sigma);
+  const radius = (kernel.length - 1) / 2;
+  const rows = new Float32Array(plane.length);
+  const out = new Float32Array(plane.length);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k));
+        sum += plane[row + sx] * kernel[k + radius];
+      }
+      rows[row + x] = sum;
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k));
+        sum += rows[sy * width + x] * kernel[k + radius];
+      }
+      out[y * width + x] = sum;
+    }
+  }
+  return out;
+};
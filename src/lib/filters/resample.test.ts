@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { testImage } from "@/test/images";
+import { RESAMPLE_FILTERS, resamplePixels, type DownscaleStrategy, type ResampleOptions } from "./resample";
+
+const FILTERS = RESAMPLE_FILTERS.map((f) => f.value);
+
+const solid = (width: number, height: number, rgba: number[]) => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < pixels.length; i++) pixels[i] = rgba[i % 4];
+  return pixels;
+};
+
+const checkerboard = (size: number) => {
+  const board = new Uint8ClampedArray(size * size * 4);
+  for (let i = 0; i < size * size; i++) {
+    const on = ((i % size) + Math.floor(i / size)) % 2;
+    board.set([on * 255, on * 255, on * 255, 255], i * 4);
+  }
+  return board;
+};
+
+const options = (patch: Partial<ResampleOptions> = {}): ResampleOptions => ({
+  filter: 'lanczos3',
+  linear: false,
+  downscale: 'auto',
+  ...patch,
+});
+
+describe('resamplePixels', () => {
+  it.each(FILTERS)('keeps a flat colour flat with %s', (filter) => {
+    for (const linear of [false, true]) {
+      for (const [dw, dh] of [[31, 17], [7, 5], [40, 40]]) {
+        const { pixels } = resamplePixels(solid(20, 12, [200, 90, 10, 255]), 20, 12, dw, dh, options({ filter, linear }));
+        expect(pixels.length).toBe(dw * dh * 4);
+        expect(new Set(pixels).size).toBeLessThanOrEqual(4);
+        expect(Array.from(pixels.subarray(0, 4))).toEqual([200, 90, 10, 255]);
+      }
+    }
+  });
+
+  it('returns the pixels unchanged at the same size', () => {
+    const { data } = testImage(9, 6);
+    expect(resamplePixels(data, 9, 6, 9, 6, options()).pixels).toEqual(data);
+  });
+
+  it('doubles pixels with nearest neighbour', () => {
+    const { data } = testImage(3, 2);
+    const { pixels } = resamplePixels(data, 3, 2, 6, 4, options({ filter: 'nearest' }));
+    for (let y = 0; y < 4; y++) {
+      for (let x = 0; x < 6; x++) {
+        const source = ((y >> 1) * 3 + (x >> 1)) * 4;
+        expect(Array.from(pixels.subarray((y * 6 + x) * 4, (y * 6 + x) * 4 + 4))).toEqual(Array.from(data.subarray(source, source + 4)));
+      }
+    }
+  });
+
+  it('averages a checkerboard to grey when reducing', () => {
+    for (const downscale of ['single', 'halving', 'box'] as DownscaleStrategy[]) {
+      const { pixels } = resamplePixels(checkerboard(64), 64, 64, 8, 8, options({ downscale }));
+      for (let i = 0; i < pixels.length; i += 4) expect(Math.abs(pixels[i] - 128)).toBeLessThanOrEqual(2);
+    }
+  });
+
+  it('reports the strategy and passes it used', () => {
+    const { data } = testImage(64, 64);
+    expect(resamplePixels(data, 64, 64, 8, 8, options({ downscale: 'halving' })).report).toEqual({ strategy: 'halving', passes: 3 });
+    expect(resamplePixels(data, 64, 64, 8, 8, options({ downscale: 'box' })).report).toEqual({ strategy: 'box', passes: 2 });
+    expect(resamplePixels(data, 64, 64, 8, 8, options()).report.strategy).toBe('box');
+    expect(resamplePixels(data, 64, 64, 48, 48, options()).report).toEqual({ strategy: 'single', passes: 1 });
+  });
+});
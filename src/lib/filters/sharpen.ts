@@ -0,0 +1,101 @@
+import { gaussianBlur } from "./gaussian";
+
+/**
+ * Where the sharpening values come from:
+ * - `custom`: the amount, radius and threshold set by hand
+ * - `print`, `screen`: output sharpening for the medium, its radius scaled to the output DPI
+ */
+export type SharpenMode = 'off' | 'custom' | 'print' | 'screen';
+
+export const SHARPEN_MODES: { value: SharpenMode; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'custom', label: 'Unsharp mask' },
+  { value: 'print', label: 'Output sharpening: print' },
+  { value: 'screen', label: 'Output sharpening: screen' },
+];
+
+export interface UnsharpMask {
+  /** Strength of the added detail in percent */
+  amount: number;
+  /** Gaussian sigma in output pixels */
+  radius: number;
+  /** Detail below this many levels (0–255) is left alone, which keeps noise and skin smooth */
+  threshold: number;
+  /** Weight the detail by local edge strength, so flat areas stay untouched */
+  edgeAware: boolean;
+}
+
+export interface SharpenSettings extends UnsharpMask {
+  mode: SharpenMode;
+}
+
+export const DEFAULT_SHARPEN_SETTINGS: SharpenSettings = {
+  mode: 'off',
+  amount: 100,
+  radius: 1,
+  threshold: 0,
+  edgeAware: false,
+};
+
+// Preset radii as a length on the output, so they hold at any density: about
+// 1/200 in for prints seen at arm's length, half a 96 DPI pixel for screens
+const PRINT_RADIUS_IN = 1 / 200;
+const SCREEN_RADIUS_IN = 1 / 192;
+const MIN_RADIUS = 0.3;
+
+// Edge strength, in levels per pixel, where edge-aware weighting starts and reaches full
+const EDGE_LOW = 2;
+const EDGE_HIGH = 16;
+
+/** The unsharp mask the settings call for at `dpi`, or null when nothing would change. */
+export const resolveSharpening = (settings: SharpenSettings, dpi: number): UnsharpMask | null => {
+  const { edgeAware } = settings;
+  switch (settings.mode) {
+    case 'off':
+      return null;
+    case 'custom':
+      return settings.amount > 0 ? settings : null;
+    case 'print':
+      return { amount: 120, radius: Math.max(MIN_RADIUS, dpi * PRINT_RADIUS_IN), threshold: 3, edgeAware };
+    case 'screen':
+      return { amount: 70, radius: Math.max(MIN_RADIUS, dpi * SCREEN_RADIUS_IN), threshold: 0, edgeAware };
+  }
+};
+
+/**
+ * Unsharp mask on luma: the difference between the image and its Gaussian
+ * blur is added back to all three channels equally, which sharpens without
+ * the colour fringes of per-channel masks. Works in place; alpha is kept.
+ */
+export const sharpen = (image: ImageData, mask: UnsharpMask): void => {
+  const { width, height, data } = image;
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  const blurred = gaussianBlur(luma, width, height, mask.radius);
+  const gain = mask.amount / 100;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const detail = luma[p] - blurred[p];
+      if (Math.abs(detail) < mask.threshold) continue;
+
+      let weight = 1;
+      if (mask.edgeAware) {
+        // Central differences on the blurred luma, so noise does not count as an edge
+        const gx = blurred[y * width + Math.min(width - 1, x + 1)] - blurred[y * width + Math.max(0, x - 1)];
+        const gy = blurred[Math.min(height - 1, y + 1) * width + x] - blurred[Math.max(0, y - 1) * width + x];
+        const edge = Math.hypot(gx, gy) / 2;
+        weight = Math.min(1, Math.max(0, (edge - EDGE_LOW) / (EDGE_HIGH - EDGE_LOW)));
+        if (weight === 0) continue;
+      }
+
+      const delta = detail * gain * weight;
+      data[p * 4] += delta;
+      data[p * 4 + 1] += delta;
+      data[p * 4 + 2] += delta;
+    }
+  }
+};
@@ -0,0 +1,108 @@
+import type { InferenceSession } from "onnxruntime-web/wasm";
+
+export type SuperResolutionScale = 2 | 4;
+
+export const SUPER_RESOLUTION_SCALES: SuperResolutionScale[] = [2, 4];
+
+/**
+ * The bundled models, served from public/models so they work offline: RDN
+ * networks from @upscalerjs/esrgan-slim, converted to ONNX. Each takes one
+ * float32 NCHW RGB tensor in 0–1 with any height and width and returns the
+ * same layout `scale` times larger, as ESRGAN-style exports do.
+ */
+const MODEL_URLS: Record<SuperResolutionScale, string> = {
+  2: `${import.meta.env.BASE_URL}models/super-resolution-x2.onnx`,
+  4: `${import.meta.env.BASE_URL}models/super-resolution-x4.onnx`,
+};
+
+// Input pixels per tile edge, and the context each tile reads beyond its own
+// area so the network sees across seams; only the tile's own area is kept
+const TILE_SIZE = 192;
+const TILE_OVERLAP = 16;
+
+// A failed load is remembered too, so a missing model is not fetched on every run
+const sessions = new Map<SuperResolutionScale, Promise<InferenceSession>>();
+
+const loadSession = (scale: SuperResolutionScale): Promise<InferenceSession> => {
+  let session = sessions.get(scale);
+  if (!session) {
+    session = (async () => {
+      // The runtime and its WASM are loaded on first use so they stay out of the main bundle
+      const ort = await import("onnxruntime-web/wasm");
+      const response = await fetch(MODEL_URLS[scale]);
+      if (!response.ok) throw new Error(`Super-resolution model missing (${response.status})`);
+      return ort.InferenceSession.create(new Uint8Array(await response.arrayBuffer()), { executionProviders: ['wasm'] });
+    })();
+    sessions.set(scale, session);
+  }
+  return session;
+};
+
+/** Whether the model for `scale` loads; used to fall back before any work is done. */
+export const superResolutionAvailable = (scale: SuperResolutionScale): Promise<boolean> =>
+  loadSession(scale).then(() => true, () => false);
+
+/**
+ * Enlarges RGB by `scale` with the bundled network, tile by tile so memory
+ * stays bounded on large images. Alpha is not seen by the network; it is
+ * taken from `alpha`, an image of the output size, when one is given.
+ * `onTile` is called after each tile and may throw to stop the job.
+ */
+export const superResolve = async (
+  image: ImageData,
+  scale: SuperResolutionScale,
+  onTile: (done: number) => void,
+  alpha?: ImageData,
+): Promise<ImageData> => {
+  const session = await loadSession(scale);
+  const { Tensor } = await import("onnxruntime-web/wasm");
+  const { width, height, data } = image;
+  const output = new ImageData(width * scale, height * scale);
+  const out = output.data;
+  const columns = Math.ceil(width / TILE_SIZE);
+  const rows = Math.ceil(height / TILE_SIZE);
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      // The tile's own area, and the padded area fed to the network
+      const x0 = column * TILE_SIZE;
+      const y0 = row * TILE_SIZE;
+      const x1 = Math.min(width, x0 + TILE_SIZE);
+      const y1 = Math.min(height, y0 + TILE_SIZE);
+      const px0 = Math.max(0, x0 - TILE_OVERLAP);
+      const py0 = Math.max(0, y0 - TILE_OVERLAP);
+      const pw = Math.min(width, x1 + TILE_OVERLAP) - px0;
+      const ph = Math.min(height, y1 + TILE_OVERLAP) - py0;
+
+      const plane = pw * ph;
+      const input = new Float32Array(plane * 3);
+      for (let y = 0; y < ph; y++) {
+        for (let x = 0; x < pw; x++) {
+          const i = ((py0 + y) * width + px0 + x) * 4;
+          const o = y * pw + x;
+          input[o] = data[i] / 255;
+          input[plane + o] = data[i + 1] / 255;
+          input[2 * plane + o] = data[i + 2] / 255;
+        }
+      }
+
+      const results = await session.run({ [session.inputNames[0]]: new Tensor('float32', input, [1, 3, ph, pw]) });
+      const result = results[session.outputNames[0]].data as Float32Array;
+      const ow = pw * scale;
+      const outPlane = ow * ph * scale;
+      for (let y = (y0 - py0) * scale; y < (y1 - py0) * scale; y++) {
+        const target = ((py0 * scale + y) * output.width + px0 * scale) * 4;
+        for (let x = (x0 - px0) * scale; x < (x1 - px0) * scale; x++) {
+          const o = y * ow + x;
+          const t = target + x * 4;
+          out[t] = result[o] * 255;
+          out[t + 1] = result[outPlane + o] * 255;
+          out[t + 2] = result[2 * outPlane + o] * 255;
+          out[t + 3] = alpha ? alpha.data[t + 3] : 255;
+        }
+      }
+      onTile((row * columns + column + 1) / (rows * columns));
+    }
+  }
+  return output;
+};
@@ -0,0 +1,250 @@
+import { gaussianBlur } from "./gaussian";
+
+/** A tone curve control point; both values are levels, 0–255 */
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+export type CurveChannel = 'master' | 'red' | 'green' | 'blue';
+
+export const CURVE_CHANNELS: { value: CurveChannel; label: string }[] = [
+  { value: 'master', label: 'RGB' },
+  { value: 'red', label: 'Red' },
+  { value: 'green', label: 'Green' },
+  { value: 'blue', label: 'Blue' },
+];
+
+export type ToneCurves = Record<CurveChannel, CurvePoint[]>;
+
+export const IDENTITY_CURVE: CurvePoint[] = [
+  { x: 0, y: 0 },
+  { x: 255, y: 255 },
+];
+
+/**
+ * Tonal adjustments, applied to pixel data in this order:
+ * 1. exposure, in linear light
+ * 2. brightness and contrast, with the same meaning as the CSS filters they replace
+ * 3. levels: input black and white, midtone gamma, output black and white
+ * 4. curves: the RGB curve, then each channel's own
+ * 5. shadows and highlights, which depend on the surrounding area
+ */
+export interface ToneSettings {
+  /** Stops, −3 to +3 */
+  exposure: number;
+  /** Percent; 100 leaves the image as it is */
+  brightness: number;
+  contrast: number;
+  inputBlack: number;
+  inputWhite: number;
+  /** Above 1 lifts the midtones, below 1 darkens them */
+  gamma: number;
+  outputBlack: number;
+  outputWhite: number;
+  curves: ToneCurves;
+  /** Lift for dark areas, 0–100 */
+  shadows: number;
+  /** Recovery for bright areas, 0–100 */
+  highlights: number;
+}
+
+export const DEFAULT_TONE_SETTINGS: ToneSettings = {
+  exposure: 0,
+  brightness: 100,
+  contrast: 100,
+  inputBlack: 0,
+  inputWhite: 255,
+  gamma: 1,
+  outputBlack: 0,
+  outputWhite: 255,
+  curves: { master: IDENTITY_CURVE, red: IDENTITY_CURVE, green: IDENTITY_CURVE, blue: IDENTITY_CURVE },
+  shadows: 0,
+  highlights: 0,
+};
+
+const isIdentityCurve = (points: CurvePoint[]) => points.every((point) => point.x === point.y);
+
+/** Whether the settings would leave every pixel unchanged. */
+export const toneIsIdentity = (tone: ToneSettings) =>
+  tone.exposure === 0 &&
+  tone.brightness === 100 &&
+  tone.contrast === 100 &&
+  tone.inputBlack === 0 &&
+  tone.inputWhite === 255 &&
+  tone.gamma === 1 &&
+  tone.outputBlack === 0 &&
+  tone.outputWhite === 255 &&
+  Object.values(tone.curves).every(isIdentityCurve) &&
+  tone.shadows === 0 &&
+  tone.highlights === 0;
+
+/**
+ * The curve through `points` at every level, as a monotone cubic
+ * (Fritsch–Carlson) so it never overshoots between points. Levels outside
+ * the first and last point hold their values.
+ */
+export const evaluateCurve = (points: CurvePoint[]): Float32Array => {
+  const sorted = [...points].sort((a, b) => a.x - b.x);
+  const n = sorted.length;
+  const out = new Float32Array(256);
+  if (n === 1) return out.fill(sorted[0].y);
+
+  const slopes = new Float32Array(n - 1);
+  for (let i = 0; i < n - 1; i++) {
+    slopes[i] = (sorted[i + 1].y - sorted[i].y) / Math.max(1e-6, sorted[i + 1].x - sorted[i].x);
+  }
+  const tangents = new Float32Array(n);
+  tangents[0] = slopes[0];
+  tangents[n - 1] = slopes[n - 2];
+  for (let i = 1; i < n - 1; i++) {
+    tangents[i] = slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  }
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const length = Math.hypot(a, b);
+    if (length > 3) {
+      tangents[i] = (3 * a * slopes[i]) / length;
+      tangents[i + 1] = (3 * b * slopes[i]) / length;
+    }
+  }
+
+  let segment = 0;
+  for (let x = 0; x < 256; x++) {
+    if (x <= sorted[0].x) {
+      out[x] = sorted[0].y;
+      continue;
+    }
+    if (x >= sorted[n - 1].x) {
+      out[x] = sorted[n - 1].y;
+      continue;
+    }
+    while (x > sorted[segment + 1].x) segment++;
+    const p0 = sorted[segment];
+    const p1 = sorted[segment + 1];
+    const h = p1.x - p0.x;
+    const t = (x - p0.x) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    out[x] =
+      (2 * t3 - 3 * t2 + 1) * p0.y +
+      (t3 - 2 * t2 + t) * h * tangents[segment] +
+      (-2 * t3 + 3 * t2) * p1.y +
+      (t3 - t2) * h * tangents[segment + 1];
+  }
+  return out;
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const toLinear = (value: number) => (value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4);
+
+const toSrgb = (value: number) => (value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055);
+
+/** Reads a curve table at a fractional level, interpolating between entries. */
+const sampleCurve = (curve: Float32Array, level: number) => {
+  const x = Math.min(255, Math.max(0, level));
+  const i = Math.min(254, Math.floor(x));
+  return curve[i] + (curve[i + 1] - curve[i]) * (x - i);
+};
+
+/** Steps 1–4 of ToneSettings folded into a lookup table per channel. */
+const buildLuts = (tone: ToneSettings): Uint8ClampedArray[] => {
+  const gain = 2 ** tone.exposure;
+  const inputRange = Math.max(1, tone.inputWhite - tone.inputBlack);
+  const master = evaluateCurve(tone.curves.master);
+  const channels = [tone.curves.red, tone.curves.green, tone.curves.blue].map(evaluateCurve);
+
+  return channels.map((curve) => {
+    const lut = new Uint8ClampedArray(256);
+    for (let level = 0; level < 256; level++) {
+      let value = level / 255;
+      if (gain !== 1) value = toSrgb(clamp01(toLinear(value) * gain));
+      value *= tone.brightness / 100;
+      value = clamp01((value - 0.5) * (tone.contrast / 100) + 0.5);
+      let t = clamp01((value * 255 - tone.inputBlack) / inputRange);
+      t = t ** (1 / tone.gamma);
+      const leveled = tone.outputBlack + t * (tone.outputWhite - tone.outputBlack);
+      lut[level] = sampleCurve(curve, sampleCurve(master, leveled));
+    }
+    return lut;
+  });
+};
+
+// The area shadows and highlights look at is a fraction of the image, so a
+// preview and the full render agree: luma is averaged onto a grid this many
+// cells across and blurred over a couple of cells
+const BASE_CELLS = 128;
+const BASE_BLUR = 2;
+
+/** Smoothed luma (0–1) of the surrounding area, sampled per pixel. */
+const baseLuma = (image: ImageData) => {
+  const { width, height, data } = image;
+  const cell = Math.max(1, Math.ceil(Math.max(width, height) / BASE_CELLS));
+  const gw = Math.ceil(width / cell);
+  const gh = Math.ceil(height / cell);
+  const sums = new Float32Array(gw * gh);
+  const counts = new Float32Array(gw * gh);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / cell) * gw;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const g = row + Math.floor(x / cell);
+      sums[g] += (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) / 255;
+      counts[g]++;
+    }
+  }
+  for (let g = 0; g < sums.length; g++) sums[g] /= counts[g];
+  const grid = gaussianBlur(sums, gw, gh, BASE_BLUR);
+
+  return (x: number, y: number) => {
+    const gx = Math.min(gw - 1, Math.max(0, (x + 0.5) / cell - 0.5));
+    const gy = Math.min(gh - 1, Math.max(0, (y + 0.5) / cell - 0.5));
+    const x0 = Math.floor(gx);
+    const y0 = Math.floor(gy);
+    const x1 = Math.min(gw - 1, x0 + 1);
+    const y1 = Math.min(gh - 1, y0 + 1);
+    const fx = gx - x0;
+    const fy = gy - y0;
+    const top = grid[y0 * gw + x0] * (1 - fx) + grid[y0 * gw + x1] * fx;
+    const bottom = grid[y1 * gw + x0] * (1 - fx) + grid[y1 * gw + x1] * fx;
+    return top * (1 - fy) + bottom * fy;
+  };
+};
+
+/** Applies the tone settings to `image` in place; alpha is kept. */
+export const applyTone = (image: ImageData, tone: ToneSettings): void => {
+  const { width, height, data } = image;
+  const [red, green, blue] = buildLuts(tone);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = red[data[i]];
+    data[i + 1] = green[data[i + 1]];
+    data[i + 2] = blue[data[i + 2]];
+  }
+  if (tone.shadows === 0 && tone.highlights === 0) return;
+
+  // Brighten pixels in dark surroundings and darken those in bright ones, by
+  // the same factor on every channel so colours keep their hue
+  const base = baseLuma(image);
+  const lift = (tone.shadows / 100) * 1.5;
+  const recover = (tone.highlights / 100) * 0.5;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const level = base(x, y);
+      const shadow = clamp01(1 - level / 0.5) ** 2;
+      const highlight = clamp01((level - 0.5) / 0.5) ** 2;
+      const factor = (1 + lift * shadow) * (1 - recover * highlight);
+      if (factor === 1) continue;
+      const i = (y * width + x) * 4;
+      data[i] *= factor;
+      data[i + 1] *= factor;
+      data[i + 2] *= factor;
+    }
+  }
+};
@@ -0,0 +1,97 @@
+export type HistogramChannel = 'luma' | 'red' | 'green' | 'blue';
+
+export const HISTOGRAM_CHANNELS: { value: HistogramChannel; label: string }[] = [
+  { value: 'luma', label: 'Luminance' },
+  { value: 'red', label: 'Red' },
+  { value: 'green', label: 'Green' },
+  { value: 'blue', label: 'Blue' },
+];
+
+export interface ChannelStats {
+  mean: number;
+  median: number;
+  std: number;
+}
+
+export interface ImageHistogram {
+  /** Pixel counts per level, 0–255 */
+  bins: Record<HistogramChannel, Uint32Array>;
+  stats: Record<HistogramChannel, ChannelStats>;
+  /** Share of pixels, 0–1, with every channel crushed to black or any channel blown to white */
+  clipped: { shadows: number; highlights: number };
+}
+
+// Longest edge the image is reduced to first; the shape of the histogram survives that
+const HISTOGRAM_MAX_EDGE = 512;
+// Levels this close to either end count as clipped, as JPEG noise rarely leaves exact 0 or 255
+const CLIP_MARGIN = 2;
+
+const channelStats = (bins: Uint32Array, total: number): ChannelStats => {
+  let sum = 0;
+  for (let level = 0; level < 256; level++) sum += level * bins[level];
+  const mean = sum / total;
+  let variance = 0;
+  let median = -1;
+  let seen = 0;
+  for (let level = 0; level < 256; level++) {
+    variance += (level - mean) ** 2 * bins[level];
+    seen += bins[level];
+    if (median < 0 && seen >= total / 2) median = level;
+  }
+  return { mean, median, std: Math.sqrt(variance / total) };
+};
+
+/** Histograms and statistics of the opaque pixels in `image`; null when there are none. */
+export const computeHistogram = (image: ImageData): ImageHistogram | null => {
+  const { data } = image;
+  const bins = {
+    luma: new Uint32Array(256),
+    red: new Uint32Array(256),
+    green: new Uint32Array(256),
+    blue: new Uint32Array(256),
+  };
+  let shadows = 0;
+  let highlights = 0;
+  let total = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    bins.red[r]++;
+    bins.green[g]++;
+    bins.blue[b]++;
+    bins.luma[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++;
+    if (Math.max(r, g, b) <= CLIP_MARGIN) shadows++;
+    if (Math.max(r, g, b) >= 255 - CLIP_MARGIN) highlights++;
+    total++;
+  }
+  if (total === 0) return null;
+
+  return {
+    bins,
+    stats: {
+      luma: channelStats(bins.luma, total),
+      red: channelStats(bins.red, total),
+      green: channelStats(bins.green, total),
+      blue: channelStats(bins.blue, total),
+    },
+    clipped: { shadows: shadows / total, highlights: highlights / total },
+  };
+};
+
+/** Loads the image at `url` and measures it, reduced to HISTOGRAM_MAX_EDGE. */
+export const histogramFromUrl = async (url: string): Promise<ImageHistogram | null> => {
+  const image = new Image();
+  image.src = url;
+  await image.decode();
+  const scale = Math.min(1, HISTOGRAM_MAX_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return computeHistogram(ctx.getImageData(0, 0, canvas.width, canvas.height));
+};
@@ -0,0 +1,51 @@
+import { crc32 } from "./crc32";
+
+export const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let at = 0;
+  for (const part of parts) {
+    out.set(part, at);
+    at += part.length;
+  }
+  return out;
+};
+
+export const ascii = (bytes: Uint8Array, offset: number, length: number): string => {
+  let out = '';
+  for (let i = 0; i < length && offset + i < bytes.length; i++) out += String.fromCharCode(bytes[offset + i]);
+  return out;
+};
+
+export const asciiBytes = (text: string): Uint8Array => Uint8Array.from(text, (c) => c.charCodeAt(0));
+
+// Prefix of an EXIF APP1 payload in JPEG (and of some WebP EXIF chunks)
+export const EXIF_HEADER = asciiBytes('Exif\0\0');
+
+/** A JPEG marker segment: 0xFF, marker, 16-bit length, payload. */
+export const jpegSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+  const seg = new Uint8Array(4 + payload.length);
+  seg[0] = 0xff;
+  seg[1] = marker;
+  new DataView(seg.buffer).setUint16(2, payload.length + 2);
+  seg.set(payload, 4);
+  return seg;
+};
+
+export const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(asciiBytes(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+/** A RIFF chunk, padded to an even length as the container requires. */
+export const riffChunk = (fourCC: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+  chunk.set(asciiBytes(fourCC));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
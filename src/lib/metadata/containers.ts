@@ -0,0 +1,233 @@
+import { ascii } from "./chunks";
+
+// Low-level walkers for the container formats we read metadata from.
+
+export interface JpegSegment {
+  marker: number;
+  /** Offset of the 0xFF marker byte */
+  offset: number;
+  /** Offset of the segment payload (after the length field) */
+  dataOffset: number;
+  /** Payload length, excluding the two length bytes */
+  length: number;
+}
+
+export interface PngChunk {
+  type: string;
+  offset: number;
+  dataOffset: number;
+  length: number;
+}
+
+export interface RiffChunk {
+  fourCC: string;
+  offset: number;
+  dataOffset: number;
+  length: number;
+}
+
+const u16be = (bytes: Uint8Array, at: number) => (bytes[at] << 8) | bytes[at + 1];
+const u32be = (bytes: Uint8Array, at: number) =>
+  ((bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3]) >>> 0;
+const u32le = (bytes: Uint8Array, at: number) =>
+  (bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16) | (bytes[at + 3] << 24)) >>> 0;
+
+export const isJpeg = (bytes: Uint8Array) => bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8;
+
+export const isPng = (bytes: Uint8Array) =>
+  bytes.length > 8 && bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG';
+
+export const isRiffWebp = (bytes: Uint8Array) =>
+  bytes.length > 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP';
+
+export const isIsobmff = (bytes: Uint8Array) => bytes.length > 12 && ascii(bytes, 4, 4) === 'ftyp';
+
+// BITMAPFILEHEADER (14 bytes) followed by at least a BITMAPINFOHEADER
+export const isBmp = (bytes: Uint8Array) => bytes.length > 54 && ascii(bytes, 0, 2) === 'BM' && u32le(bytes, 14) >= 40;
+
+/** Lists the marker segments that precede the entropy-coded image data. */
+export const readJpegSegments = (bytes: Uint8Array): JpegSegment[] => {
+  const segments: JpegSegment[] = [];
+  if (!isJpeg(bytes)) return segments;
+
+  let at = 2;
+  while (at + 4 <= bytes.length) {
+    if (bytes[at] !== 0xff) break;
+    const marker = bytes[at + 1];
+    if (marker === 0xff) {
+      at++;
+      continue;
+    }
+    // Markers without a length field
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      at += 2;
+      continue;
+    }
+    if (marker === 0xd9) break;
+
+    const length = u16be(bytes, at + 2) - 2;
+    if (length < 0 || at + 4 + length > bytes.length) break;
+    segments.push({ marker, offset: at, dataOffset: at + 4, length });
+    if (marker === 0xda) break;
+    at += 4 + length;
+  }
+  return segments;
+};
+
+export const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  const chunks: PngChunk[] = [];
+  if (!isPng(bytes)) return chunks;
+
+  let at = 8;
+  while (at + 12 <= bytes.length) {
+    const length = u32be(bytes, at);
+    const type = ascii(bytes, at + 4, 4);
+    if (at + 12 + length > bytes.length) break;
+    chunks.push({ type, offset: at, dataOffset: at + 8, length });
+    if (type === 'IEND') break;
+    at += 12 + length;
+  }
+  return chunks;
+};
+
+export const readRiffChunks = (bytes: Uint8Array): RiffChunk[] => {
+  const chunks: RiffChunk[] = [];
+  if (!isRiffWebp(bytes)) return chunks;
+
+  let at = 12;
+  while (at + 8 <= bytes.length) {
+    const fourCC = ascii(bytes, at, 4);
+    const length = u32le(bytes, at + 4);
+    if (at + 8 + length > bytes.length) break;
+    chunks.push({ fourCC, offset: at, dataOffset: at + 8, length });
+    at += 8 + length + (length & 1);
+  }
+  return chunks;
+};
+
+/** An ISO-BMFF (AVIF/HEIF) box */
+export interface Box {
+  type: string;
+  offset: number;
+  dataOffset: number;
+  end: number;
+}
+
+export const readBoxes = (bytes: Uint8Array, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let at = start;
+  while (at + 8 <= end) {
+    let size = u32be(bytes, at);
+    const type = ascii(bytes, at + 4, 4);
+    let header = 8;
+    if (size === 1) {
+      // 64-bit size; files beyond 4 GB are not something we handle in the browser
+      size = u32be(bytes, at + 12);
+      header = 16;
+    } else if (size === 0) {
+      size = end - at;
+    }
+    if (size < header || at + size > end) break;
+    boxes.push({ type, offset: at, dataOffset: at + header, end: at + size });
+    at += size;
+  }
+  return boxes;
+};
+
+const readSized = (bytes: Uint8Array, at: number, size: number): number => {
+  if (size === 0) return 0;
+  if (size === 2) return u16be(bytes, at);
+  if (size === 4) return u32be(bytes, at);
+  // 8-byte fields: use the low word
+  return u32be(bytes, at + 4);
+};
+
+/**
+ * Locates the EXIF item of an ISO-BMFF image (AVIF/HEIF) via the meta box
+ * item info and location tables. Returns the offset of the TIFF header.
+ */
+export const findIsobmffExif = (bytes: Uint8Array): number | null => {
+  if (!isIsobmff(bytes)) return null;
+
+  const meta = readBoxes(bytes, 0, bytes.length).find((box) => box.type === 'meta');
+  if (!meta) return null;
+  // meta is a full box: skip version and flags
+  const children = readBoxes(bytes, meta.dataOffset + 4, meta.end);
+
+  const iinf = children.find((box) => box.type === 'iinf');
+  const iloc = children.find((box) => box.type === 'iloc');
+  if (!iinf || !iloc) return null;
+
+  let exifItem = -1;
+  const iinfVersion = bytes[iinf.dataOffset];
+  const entriesStart = iinf.dataOffset + 4 + (iinfVersion === 0 ? 2 : 4);
+  for (const infe of readBoxes(bytes, entriesStart, iinf.end)) {
+    if (infe.type !== 'infe') continue;
+    const version = bytes[infe.dataOffset];
+    if (version < 2) continue;
+    const idSize = version === 2 ? 2 : 4;
+    const id = readSized(bytes, infe.dataOffset + 4, idSize);
+    const itemType = ascii(bytes, infe.dataOffset + 4 + idSize + 2, 4);
+    if (itemType === 'Exif') {
+      exifItem = id;
+      break;
+    }
+  }
+  if (exifItem < 0) return null;
+
+  const version = bytes[iloc.dataOffset];
+  let at = iloc.dataOffset + 4;
+  const offsetSize = bytes[at] >> 4;
+  const lengthSize = bytes[at] & 0x0f;
+  const baseOffsetSize = bytes[at + 1] >> 4;
+  const indexSize = version === 1 || version === 2 ? bytes[at + 1] & 0x0f : 0;
+  at += 2;
+  const itemCount = version < 2 ? u16be(bytes, at) : u32be(bytes, at);
+  at += version < 2 ? 2 : 4;
+
+  for (let i = 0; i < itemCount && at < iloc.end; i++) {
+    const id = version < 2 ? u16be(bytes, at) : u32be(bytes, at);
+    at += version < 2 ? 2 : 4;
+    if (version === 1 || version === 2) at += 2; // construction_method
+    at += 2; // data_reference_index
+    const baseOffset = readSized(bytes, at, baseOffsetSize);
+    at += baseOffsetSize;
+    const extentCount = u16be(bytes, at);
+    at += 2;
+
+    let firstExtent = -1;
+    for (let e = 0; e < extentCount; e++) {
+      at += indexSize;
+      const extentOffset = readSized(bytes, at, offsetSize);
+      at += offsetSize + lengthSize;
+      if (e === 0) firstExtent = baseOffset + extentOffset;
+    }
+
+    if (id === exifItem && firstExtent >= 0 && firstExtent + 4 <= bytes.length) {
+      // The payload starts with a 32-bit offset to the TIFF header
+      return firstExtent + 4 + u32be(bytes, firstExtent);
+    }
+  }
+  return null;
+};
+
+/** Finds the TIFF header offset of the EXIF block in a JPEG, PNG or WebP file. */
+export const findExif = (bytes: Uint8Array): number | null => {
+  if (isJpeg(bytes)) {
+    const app1 = readJpegSegments(bytes).find(
+      (seg) => seg.marker === 0xe1 && ascii(bytes, seg.dataOffset, 6) === 'Exif\0\0',
+    );
+    return app1 ? app1.dataOffset + 6 : null;
+  }
+  if (isPng(bytes)) {
+    const chunk = readPngChunks(bytes).find((c) => c.type === 'eXIf');
+    return chunk ? chunk.dataOffset : null;
+  }
+  if (isRiffWebp(bytes)) {
+    const chunk = readRiffChunks(bytes).find((c) => c.fourCC === 'EXIF');
+    if (!chunk) return null;
+    // Some encoders keep the JPEG-style "Exif\0\0" prefix
+    return ascii(bytes, chunk.dataOffset, 6) === 'Exif\0\0' ? chunk.dataOffset + 6 : chunk.dataOffset;
+  }
+  return findIsobmffExif(bytes);
+};
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { bareAvif, bareJpeg, barePng, bareWebp } from "@/test/images";
+import { EXIF_HEADER, asciiBytes, concat, jpegSegment } from "./chunks";
+import { embedMetadata, type EmbedOptions } from "./embed";
+import { readMetadata, readOwnership } from "./extract";
+import { IPTC_BYLINE, buildIptcPayload, iptcKey, type IptcDataset } from "./iptc";
+import { readResolution } from "./resolution";
+import { TIFF_TAGS, parseTiff } from "./tiff";
+import { asciiEntry, buildTiff, rationalEntry, shortEntry } from "./tiff-writer";
+
+const MAKE = 0x010f;
+const DATE_TIME_ORIGINAL = 0x9003;
+const GPS_LATITUDE_REF = 0x0001;
+
+const sourceExif = buildTiff({
+  littleEndian: true,
+  ifd0: [
+    asciiEntry(MAKE, 'Camera Co'),
+    asciiEntry(TIFF_TAGS.Artist, 'Original Author'),
+    asciiEntry(TIFF_TAGS.Copyright, '(c) Original'),
+    shortEntry(TIFF_TAGS.Orientation, 6, true),
+    rationalEntry(TIFF_TAGS.XResolution, 72, true),
+  ],
+  exif: [asciiEntry(DATE_TIME_ORIGINAL, '2024:05:01 10:00:00')],
+  gps: [asciiEntry(GPS_LATITUDE_REF, 'N')],
+});
+
+const iptc = (record: number, dataset: number, text: string): IptcDataset => ({ record, dataset, value: asciiBytes(text) });
+
+// A JPEG as a camera and a photo library would leave it: EXIF with GPS, and IPTC
+const sourceJpeg = (() => {
+  const jpeg = bareJpeg();
+  return concat(
+    jpeg.subarray(0, 2),
+    jpegSegment(0xe1, concat(EXIF_HEADER, sourceExif)),
+    jpegSegment(0xed, buildIptcPayload([iptc(2, 80, 'Original Author'), iptc(2, 90, 'Lisbon')])),
+    jpeg.subarray(2),
+  );
+})();
+
+const source = readMetadata(sourceJpeg);
+
+const options = (patch: Partial<EmbedOptions> = {}): EmbedOptions => ({
+  policy: 'keep-all',
+  edits: {},
+  width: 40,
+  height: 30,
+  dpiX: 300,
+  dpiY: 300,
+  ...patch,
+});
+
+const outputs: [string, () => Uint8Array][] = [
+  ['JPEG', bareJpeg],
+  ['PNG', () => barePng(4, 3)],
+  ['WebP', () => bareWebp(4, 3)],
+  ['AVIF', () => bareAvif(new Uint8Array(16).fill(3))],
+];
+
+describe('readMetadata', () => {
+  it('reads EXIF directories and IPTC datasets', () => {
+    expect(source.exif?.ifd0?.entries.get(MAKE)?.value).toBe('Camera Co');
+    expect(source.exif?.exif?.entries.get(DATE_TIME_ORIGINAL)?.value).toBe('2024:05:01 10:00:00');
+    expect(source.exif?.gps?.entries.get(GPS_LATITUDE_REF)?.value).toBe('N');
+    expect(source.iptc.map(iptcKey)).toEqual([IPTC_BYLINE, '2:90']);
+    expect(readOwnership(source)).toEqual({ author: 'Original Author', copyright: '(c) Original' });
+  });
+});
+
+describe('embedMetadata', () => {
+  it.each(outputs)('carries EXIF into %s with the new density and without orientation', (_, build) => {
+    const out = readMetadata(embedMetadata(build(), source, options()));
+    expect(out.exif?.ifd0?.entries.get(MAKE)?.value).toBe('Camera Co');
+    expect(out.exif?.ifd0?.entries.has(TIFF_TAGS.Orientation)).toBe(false);
+    expect(out.exif?.exif?.entries.get(TIFF_TAGS.PixelXDimension)?.value).toEqual([40]);
+    expect(out.exif?.gps?.entries.get(GPS_LATITUDE_REF)?.value).toBe('N');
+  });
+
+  it.each(outputs)('declares the density in the EXIF of %s', (_, build) => {
+    const out = embedMetadata(build(), source, options({ dpiX: 240, dpiY: 120 }));
+    const exif = readMetadata(out).exif;
+    expect(exif?.ifd0?.entries.get(TIFF_TAGS.XResolution)?.value).toEqual([240]);
+    expect(exif?.ifd0?.entries.get(TIFF_TAGS.YResolution)?.value).toEqual([120]);
+    expect(readResolution(out).estimated).toBe(false);
+  });
+
+  it.each(outputs)('applies author and copyright edits in %s', (_, build) => {
+    const out = readMetadata(embedMetadata(build(), source, options({ edits: { author: 'New Author', copyright: '' } })));
+    expect(out.exif?.ifd0?.entries.get(TIFF_TAGS.Artist)?.value).toBe('New Author');
+    expect(out.exif?.ifd0?.entries.has(TIFF_TAGS.Copyright)).toBe(false);
+  });
+
+  it('drops GPS for strip-gps', () => {
+    const out = readMetadata(embedMetadata(bareJpeg(), source, options({ policy: 'strip-gps' })));
+    expect(out.exif?.gps).toBeNull();
+    expect(out.exif?.ifd0?.entries.get(MAKE)?.value).toBe('Camera Co');
+  });
+
+  it('keeps only ownership for copyright-only', () => {
+    const out = readMetadata(embedMetadata(bareJpeg(), source, options({ policy: 'copyright-only' })));
+    const tags = [...(out.exif?.ifd0?.entries.keys() ?? [])];
+    expect(tags).toEqual(expect.arrayContaining([TIFF_TAGS.Artist, TIFF_TAGS.Copyright]));
+    expect(tags).not.toContain(MAKE);
+    expect(out.exif?.exif).toBeNull();
+    expect(out.iptc.map(iptcKey)).toEqual([IPTC_BYLINE]);
+  });
+
+  it.each(outputs)('removes everything from %s for strip-all', (_, build) => {
+    const out = readMetadata(embedMetadata(embedMetadata(build(), source, options()), source, options({ policy: 'strip-all' })));
+    expect(out.exif).toBeNull();
+    expect(out.iptc).toEqual([]);
+  });
+
+  it('replaces rather than duplicates metadata in JPEG', () => {
+    const once = embedMetadata(sourceJpeg, source, options());
+    const twice = embedMetadata(once, readMetadata(once), options());
+    expect(twice.length).toBe(once.length);
+    expect(readMetadata(twice).iptc.map(iptcKey)).toEqual([IPTC_BYLINE, '2:90']);
+  });
+
+  it('writes a TIFF block that parses back to the same entries', () => {
+    const tiff = parseTiff(sourceExif);
+    expect(tiff?.littleEndian).toBe(true);
+    expect([...(tiff?.ifd0?.entries.keys() ?? [])]).toEqual(
+      expect.arrayContaining([MAKE, TIFF_TAGS.Artist, TIFF_TAGS.Orientation, TIFF_TAGS.ExifIFDPointer, TIFF_TAGS.GPSInfoIFDPointer]),
+    );
+  });
+});
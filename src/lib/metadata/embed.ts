@@ -0,0 +1,189 @@
+import { EXIF_HEADER, ascii, asciiBytes, concat, jpegSegment, pngChunk } from "./chunks";
+import { isIsobmff, isJpeg, isPng, isRiffWebp, readJpegSegments, readPngChunks } from "./containers";
+import type { ImageMetadata } from "./extract";
+import { setIsobmffMetadata } from "./isobmff";
+import { IPTC_BYLINE, IPTC_COPYRIGHT, buildIptcPayload, iptcKey, setIptcText, type IptcDataset } from "./iptc";
+import type { MetadataEdits, MetadataPolicy } from "./policy";
+import { TIFF_TAGS } from "./tiff";
+import {
+  asciiEntry,
+  buildTiff,
+  fromParsed,
+  longEntry,
+  rationalEntry,
+  shortEntry,
+  type TiffWriteEntry,
+} from "./tiff-writer";
+import { setWebpMetadata } from "./webp";
+import { XMP_JPEG_HEADER, XMP_PNG_KEYWORD, filterXmp } from "./xmp";
+
+export interface EmbedOptions {
+  policy: MetadataPolicy;
+  edits: MetadataEdits;
+  /** Output pixel size, written to PixelXDimension/PixelYDimension */
+  width: number;
+  height: number;
+  dpiX: number;
+  dpiY: number;
+}
+
+interface MetadataBlocks {
+  exif: Uint8Array | null;
+  xmp: string | null;
+  iptc: IptcDataset[];
+}
+
+// A JPEG segment payload can hold at most 65533 bytes
+const MAX_SEGMENT_PAYLOAD = 0xffff - 2;
+
+// IFD0 tags that describe the original pixels rather than the photo, or that
+// we always regenerate. Orientation is dropped because the loader bakes it
+// into the pixels, so the output is always upright.
+const IFD0_SKIP: number[] = [
+  0x0100, 0x0101, 0x0102, 0x0103, 0x0106, 0x0111, 0x0115, 0x0116, 0x0117, 0x011c, 0x0201, 0x0202,
+  TIFF_TAGS.Orientation,
+  TIFF_TAGS.XResolution,
+  TIFF_TAGS.YResolution,
+  TIFF_TAGS.ResolutionUnit,
+];
+
+// MakerNote embeds absolute offsets that break once the block is relocated
+const EXIF_SKIP: number[] = [TIFF_TAGS.MakerNote, TIFF_TAGS.PixelXDimension, TIFF_TAGS.PixelYDimension];
+
+const OWNERSHIP_TAGS: number[] = [TIFF_TAGS.Artist, TIFF_TAGS.Copyright];
+const OWNERSHIP_IPTC = ['1:90', '2:0', IPTC_BYLINE, '2:85', '2:110', '2:115', IPTC_COPYRIGHT];
+
+const buildExif = (meta: ImageMetadata, options: EmbedOptions): Uint8Array | null => {
+  const { policy, edits } = options;
+  if (policy === 'strip-all') return null;
+
+  const little = meta.exif?.littleEndian ?? false;
+  const source = (dir: 'ifd0' | 'exif' | 'gps') => Array.from(meta.exif?.[dir]?.entries.values() ?? []);
+
+  let ifd0: TiffWriteEntry[] = source('ifd0')
+    .filter((e) => (policy === 'copyright-only' ? OWNERSHIP_TAGS.includes(e.tag) : !IFD0_SKIP.includes(e.tag)))
+    .map(fromParsed);
+
+  const setText = (tag: number, text: string | undefined) => {
+    if (text === undefined) return;
+    ifd0 = ifd0.filter((e) => e.tag !== tag);
+    if (text) ifd0.push(asciiEntry(tag, text));
+  };
+  setText(TIFF_TAGS.Artist, edits.author);
+  setText(TIFF_TAGS.Copyright, edits.copyright);
+
+  ifd0.push(
+    rationalEntry(TIFF_TAGS.XResolution, options.dpiX, little),
+    rationalEntry(TIFF_TAGS.YResolution, options.dpiY, little),
+    shortEntry(TIFF_TAGS.ResolutionUnit, 2, little),
+  );
+
+  let exif: TiffWriteEntry[] = [];
+  if (policy !== 'copyright-only') {
+    exif = source('exif').filter((e) => !EXIF_SKIP.includes(e.tag)).map(fromParsed);
+    if (exif.length) {
+      exif.push(
+        longEntry(TIFF_TAGS.PixelXDimension, options.width, little),
+        longEntry(TIFF_TAGS.PixelYDimension, options.height, little),
+      );
+    }
+  }
+
+  const gps = policy === 'keep-all' ? source('gps').map(fromParsed) : [];
+  return buildTiff({ littleEndian: little, ifd0, exif, gps });
+};
+
+const buildIptc = (meta: ImageMetadata, options: EmbedOptions): IptcDataset[] => {
+  const { policy, edits } = options;
+  if (policy === 'strip-all' || !meta.iptc.length) return [];
+
+  let datasets = policy === 'copyright-only'
+    ? meta.iptc.filter((ds) => OWNERSHIP_IPTC.includes(iptcKey(ds)))
+    : meta.iptc;
+  if (edits.author !== undefined) datasets = setIptcText(datasets, IPTC_BYLINE, edits.author);
+  if (edits.copyright !== undefined) datasets = setIptcText(datasets, IPTC_COPYRIGHT, edits.copyright);
+  // Only the character set and record version left: nothing worth writing
+  return datasets.every((ds) => ds.record === 1 || iptcKey(ds) === '2:0') ? [] : datasets;
+};
+
+const embedJpeg = (bytes: Uint8Array, blocks: MetadataBlocks): Uint8Array => {
+  const segments = readJpegSegments(bytes);
+  const isOurs = (marker: number, at: number) =>
+    (marker === 0xe1 && (ascii(bytes, at, 6) === 'Exif\0\0' || ascii(bytes, at, XMP_JPEG_HEADER.length) === XMP_JPEG_HEADER)) ||
+    (marker === 0xed && ascii(bytes, at, 13) === 'Photoshop 3.0');
+
+  const inserted: Uint8Array[] = [];
+  if (blocks.exif && blocks.exif.length + EXIF_HEADER.length <= MAX_SEGMENT_PAYLOAD) {
+    inserted.push(jpegSegment(0xe1, concat(EXIF_HEADER, blocks.exif)));
+  }
+  if (blocks.xmp) {
+    const payload = concat(asciiBytes(XMP_JPEG_HEADER), new TextEncoder().encode(blocks.xmp));
+    // Extended XMP spanning several segments is not supported; oversized packets are dropped
+    if (payload.length <= MAX_SEGMENT_PAYLOAD) inserted.push(jpegSegment(0xe1, payload));
+  }
+  if (blocks.iptc.length) {
+    const payload = buildIptcPayload(blocks.iptc);
+    if (payload.length <= MAX_SEGMENT_PAYLOAD) inserted.push(jpegSegment(0xed, payload));
+  }
+
+  // Insert after JFIF APP0 (or SOI) and drop the segments we are replacing
+  const app0 = segments.find((seg) => seg.marker === 0xe0 && seg.offset === 2);
+  const insertAt = app0 ? app0.dataOffset + app0.length : 2;
+  const parts: Uint8Array[] = [bytes.subarray(0, insertAt), ...inserted];
+  let at = insertAt;
+  for (const seg of segments) {
+    if (seg.offset < insertAt || !isOurs(seg.marker, seg.dataOffset)) continue;
+    parts.push(bytes.subarray(at, seg.offset));
+    at = seg.dataOffset + seg.length;
+  }
+  parts.push(bytes.subarray(at));
+  return concat(...parts);
+};
+
+const embedPng = (bytes: Uint8Array, blocks: MetadataBlocks): Uint8Array => {
+  const chunks = readPngChunks(bytes);
+  const ihdr = chunks.find((chunk) => chunk.type === 'IHDR');
+  if (!ihdr) return bytes;
+
+  const isXmp = (dataOffset: number) => ascii(bytes, dataOffset, XMP_PNG_KEYWORD.length + 1) === `${XMP_PNG_KEYWORD}\0`;
+  const inserted: Uint8Array[] = [];
+  if (blocks.exif) inserted.push(pngChunk('eXIf', blocks.exif));
+  if (blocks.xmp) {
+    // keyword, NUL, uncompressed flag + method, empty language tag and translated keyword
+    const header = concat(asciiBytes(XMP_PNG_KEYWORD), new Uint8Array([0, 0, 0, 0, 0]));
+    inserted.push(pngChunk('iTXt', concat(header, new TextEncoder().encode(blocks.xmp))));
+  }
+  // PNG has no standard home for IPTC-IIM, so it is not carried over
+
+  const afterIhdr = ihdr.offset + 12 + ihdr.length;
+  const parts: Uint8Array[] = [bytes.subarray(0, afterIhdr), ...inserted];
+  let at = afterIhdr;
+  for (const chunk of chunks) {
+    if (chunk.type !== 'eXIf' && !(chunk.type === 'iTXt' && isXmp(chunk.dataOffset))) continue;
+    parts.push(bytes.subarray(at, chunk.offset));
+    at = chunk.offset + 12 + chunk.length;
+  }
+  parts.push(bytes.subarray(at));
+  return concat(...parts);
+};
+
+/**
+ * Re-embeds the original file's metadata into freshly encoded output,
+ * filtered by the chosen policy. Existing EXIF/XMP/IPTC blocks in the
+ * encoded bytes are replaced.
+ */
+export const embedMetadata = (encoded: Uint8Array, meta: ImageMetadata, options: EmbedOptions): Uint8Array => {
+  const blocks: MetadataBlocks = {
+    exif: buildExif(meta, options),
+    xmp: meta.xmp ? filterXmp(meta.xmp, options.policy, options.edits) : null,
+    iptc: buildIptc(meta, options),
+  };
+
+  if (isJpeg(encoded)) return embedJpeg(encoded, blocks);
+  if (isPng(encoded)) return embedPng(encoded, blocks);
+  // WebP and AVIF hold EXIF and XMP alike; neither has a standard home for IPTC-IIM
+  const items = { exif: blocks.exif, xmp: blocks.xmp ? new TextEncoder().encode(blocks.xmp) : null };
+  if (isRiffWebp(encoded)) return setWebpMetadata(encoded, items);
+  if (isIsobmff(encoded)) return setIsobmffMetadata(encoded, items);
+  return encoded;
+};
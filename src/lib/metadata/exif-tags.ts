@@ -0,0 +1,119 @@
+import type { TiffEntry } from "./tiff";
+
+// Display names for the tags people actually look at. Unknown tags are listed by number.
+const IFD0_NAMES: Record<number, string> = {
+  0x010e: 'Image Description',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x011a: 'X Resolution',
+  0x011b: 'Y Resolution',
+  0x0128: 'Resolution Unit',
+  0x0131: 'Software',
+  0x0132: 'Date/Time',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+  0x9c9b: 'Windows Title',
+  0x9c9c: 'Windows Comment',
+  0x9c9d: 'Windows Author',
+  0x9c9e: 'Windows Keywords',
+  0x9c9f: 'Windows Subject',
+};
+
+const EXIF_NAMES: Record<number, string> = {
+  0x829a: 'Exposure Time',
+  0x829d: 'F-Number',
+  0x8822: 'Exposure Program',
+  0x8827: 'ISO',
+  0x9000: 'EXIF Version',
+  0x9003: 'Date/Time Original',
+  0x9004: 'Date/Time Digitized',
+  0x9201: 'Shutter Speed',
+  0x9202: 'Aperture',
+  0x9204: 'Exposure Bias',
+  0x9207: 'Metering Mode',
+  0x9209: 'Flash',
+  0x920a: 'Focal Length',
+  0x927c: 'Maker Note',
+  0x9286: 'User Comment',
+  0xa001: 'Color Space',
+  0xa002: 'Pixel X Dimension',
+  0xa003: 'Pixel Y Dimension',
+  0xa402: 'Exposure Mode',
+  0xa403: 'White Balance',
+  0xa405: 'Focal Length (35mm)',
+  0xa406: 'Scene Capture Type',
+  0xa430: 'Camera Owner',
+  0xa431: 'Body Serial Number',
+  0xa432: 'Lens Specification',
+  0xa433: 'Lens Make',
+  0xa434: 'Lens Model',
+};
+
+const GPS_NAMES: Record<number, string> = {
+  0x0000: 'GPS Version',
+  0x0001: 'Latitude Ref',
+  0x0002: 'Latitude',
+  0x0003: 'Longitude Ref',
+  0x0004: 'Longitude',
+  0x0005: 'Altitude Ref',
+  0x0006: 'Altitude',
+  0x0007: 'GPS Time',
+  0x0010: 'Image Direction Ref',
+  0x0011: 'Image Direction',
+  0x001d: 'GPS Date',
+};
+
+export type ExifDirectoryName = 'ifd0' | 'exif' | 'gps';
+
+export const exifTagName = (dir: ExifDirectoryName, tag: number): string => {
+  const names = dir === 'ifd0' ? IFD0_NAMES : dir === 'exif' ? EXIF_NAMES : GPS_NAMES;
+  return names[tag] ?? `Tag 0x${tag.toString(16).padStart(4, '0')}`;
+};
+
+const ORIENTATIONS = [
+  '',
+  'Normal',
+  'Mirrored horizontal',
+  'Rotated 180°',
+  'Mirrored vertical',
+  'Mirrored, rotated 90° CCW',
+  'Rotated 90° CW',
+  'Mirrored, rotated 90° CW',
+  'Rotated 90° CCW',
+];
+
+const decimal = (value: number) => (Number.isInteger(value) ? `${value}` : value.toFixed(4).replace(/0+$/, ''));
+
+const degrees = (values: number[]) => {
+  const [d = 0, m = 0, s = 0] = values;
+  return (d + m / 60 + s / 3600).toFixed(6);
+};
+
+export const formatExifValue = (dir: ExifDirectoryName, entry: TiffEntry): string => {
+  const { tag, value } = entry;
+
+  if (typeof value === 'string') return value;
+
+  if (value instanceof Uint8Array) {
+    // Windows XP tags are UCS-2 stored as bytes
+    if (tag >= 0x9c9b && tag <= 0x9c9f) {
+      return new TextDecoder('utf-16le').decode(value).replace(/\0+$/, '');
+    }
+    // Version fields and UserComment carry printable text
+    if (tag === 0x9000 || tag === 0xa000) return String.fromCharCode(...value);
+    if (tag === 0x9286 && value.length > 8) return new TextDecoder().decode(value.subarray(8)).replace(/\0+$/, '');
+    return `(${value.length} bytes)`;
+  }
+
+  if (dir === 'gps' && (tag === 0x0002 || tag === 0x0004)) return degrees(value);
+  if (dir === 'gps' && tag === 0x0007) return value.map((v) => String(Math.floor(v)).padStart(2, '0')).join(':');
+  if (dir === 'ifd0' && tag === 0x0112) return ORIENTATIONS[value[0]] ?? String(value[0]);
+  if (dir === 'ifd0' && tag === 0x0128) return ['', 'None', 'Inch', 'Centimetre'][value[0]] ?? String(value[0]);
+  if (dir === 'exif' && tag === 0x829a && value[0] > 0 && value[0] < 1) return `1/${Math.round(1 / value[0])} s`;
+  if (dir === 'exif' && tag === 0x829d) return `f/${decimal(value[0])}`;
+  if (dir === 'exif' && tag === 0x920a) return `${decimal(value[0])} mm`;
+
+  if (value.length > 8) return `${value.slice(0, 8).map(decimal).join(', ')}…`;
+  return value.map(decimal).join(', ');
+};
@@ -0,0 +1,80 @@
+import { findExif } from "./containers";
+import { exifTagName, formatExifValue, type ExifDirectoryName } from "./exif-tags";
+import { IPTC_BYLINE, IPTC_COPYRIGHT, IPTC_NAMES, decodeIptcValue, iptcKey, readIptc, type IptcDataset } from "./iptc";
+import { TIFF_TAGS, parseTiff, type TiffData } from "./tiff";
+import { listXmpProperties, readXmp, readXmpOwnership } from "./xmp";
+
+export interface ImageMetadata {
+  exif: TiffData | null;
+  xmp: string | null;
+  iptc: IptcDataset[];
+}
+
+export type MetadataGroup = 'EXIF' | 'GPS' | 'XMP' | 'IPTC';
+
+export interface MetadataField {
+  group: MetadataGroup;
+  name: string;
+  value: string;
+}
+
+export const EMPTY_METADATA: ImageMetadata = { exif: null, xmp: null, iptc: [] };
+
+export const readMetadata = (bytes: Uint8Array): ImageMetadata => {
+  const exifOffset = findExif(bytes);
+  return {
+    exif: exifOffset !== null ? parseTiff(bytes, exifOffset) : null,
+    xmp: readXmp(bytes),
+    iptc: readIptc(bytes),
+  };
+};
+
+export const hasMetadata = (meta: ImageMetadata) => Boolean(meta.exif || meta.xmp || meta.iptc.length);
+
+// Pointer tags are structural, not information
+const HIDDEN_TAGS: number[] = [TIFF_TAGS.ExifIFDPointer, TIFF_TAGS.GPSInfoIFDPointer, TIFF_TAGS.InteropIFDPointer];
+
+export const listMetadata = (meta: ImageMetadata): MetadataField[] => {
+  const fields: MetadataField[] = [];
+
+  const dirs: [ExifDirectoryName, MetadataGroup][] = [['ifd0', 'EXIF'], ['exif', 'EXIF'], ['gps', 'GPS']];
+  for (const [dir, group] of dirs) {
+    const entries = meta.exif?.[dir]?.entries;
+    if (!entries) continue;
+    for (const entry of entries.values()) {
+      if (HIDDEN_TAGS.includes(entry.tag)) continue;
+      fields.push({ group, name: exifTagName(dir, entry.tag), value: formatExifValue(dir, entry) });
+    }
+  }
+
+  for (const ds of meta.iptc) {
+    fields.push({
+      group: 'IPTC',
+      name: IPTC_NAMES[iptcKey(ds)] ?? `Dataset ${iptcKey(ds)}`,
+      value: decodeIptcValue(ds, meta.iptc),
+    });
+  }
+
+  if (meta.xmp) {
+    for (const prop of listXmpProperties(meta.xmp)) fields.push({ group: 'XMP', ...prop });
+  }
+  return fields;
+};
+
+/** Current author and copyright, preferring EXIF, then IPTC, then XMP. */
+export const readOwnership = (meta: ImageMetadata): { author: string; copyright: string } => {
+  const exifText = (tag: number) => {
+    const value = meta.exif?.ifd0?.entries.get(tag)?.value;
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+  const iptcText = (key: string) => {
+    const ds = meta.iptc.find((d) => iptcKey(d) === key);
+    return ds ? decodeIptcValue(ds, meta.iptc) : undefined;
+  };
+  const xmp = meta.xmp ? readXmpOwnership(meta.xmp) : {};
+
+  return {
+    author: exifText(TIFF_TAGS.Artist) ?? iptcText(IPTC_BYLINE) ?? xmp.author ?? '',
+    copyright: exifText(TIFF_TAGS.Copyright) ?? iptcText(IPTC_COPYRIGHT) ?? xmp.copyright ?? '',
+  };
+};
@@ -0,0 +1,277 @@
+import { ascii } from "./chunks";
+import { isBmp, isIsobmff, isJpeg, isPng, isRiffWebp, readBoxes, readJpegSegments, readPngChunks, readRiffChunks } from "./containers";
+import { TIFF_TAGS, getNumber, isTiffHeader, parseTiff } from "./tiff";
+
+export type SourceFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'avif' | 'heic' | 'tiff' | 'bmp' | 'ico' | 'unknown';
+
+/** What the uploaded file actually is, as far as its header tells us. Unknown properties are null. */
+export interface SourceFormatInfo {
+  format: SourceFormat;
+  label: string;
+  /** Bits per channel, or bits per pixel for palette images */
+  bitDepth: number | null;
+  colorType: string | null;
+  hasAlpha: boolean | null;
+  /** JPEG progressive scan, or PNG/GIF interlacing */
+  progressive: boolean | null;
+  /** Lossless codec variant (WebP VP8L); null where the format has only one mode */
+  lossless: boolean | null;
+}
+
+const LABELS: Record<SourceFormat, string> = {
+  jpeg: 'JPEG',
+  png: 'PNG',
+  gif: 'GIF',
+  webp: 'WebP',
+  avif: 'AVIF',
+  heic: 'HEIC',
+  tiff: 'TIFF',
+  bmp: 'BMP',
+  ico: 'ICO',
+  unknown: 'Unknown',
+};
+
+const info = (format: SourceFormat, props: Partial<SourceFormatInfo> = {}): SourceFormatInfo => ({
+  format,
+  label: LABELS[format],
+  bitDepth: null,
+  colorType: null,
+  hasAlpha: null,
+  progressive: null,
+  lossless: null,
+  ...props,
+});
+
+const u16le = (bytes: Uint8Array, at: number) => bytes[at] | (bytes[at + 1] << 8);
+const u32le = (bytes: Uint8Array, at: number) =>
+  (bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16) | (bytes[at + 3] << 24)) >>> 0;
+
+// Start-of-frame markers; C4 (DHT), C8 (JPG) and CC (DAC) share the range but are not frames
+const SOF_MARKERS = [0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf];
+const PROGRESSIVE_SOF = [0xc2, 0xc6, 0xca, 0xce];
+
+const detectJpeg = (bytes: Uint8Array): SourceFormatInfo => {
+  const segments = readJpegSegments(bytes);
+  const sof = segments.find((seg) => SOF_MARKERS.includes(seg.marker));
+  if (!sof) return info('jpeg', { hasAlpha: false });
+
+  const components = bytes[sof.dataOffset + 5];
+  // Adobe APP14 transform flag: 0 = no colour transform (RGB/CMYK), 2 = YCCK
+  const adobe = segments.find((seg) => seg.marker === 0xee && ascii(bytes, seg.dataOffset, 5) === 'Adobe');
+  const transform = adobe && adobe.length >= 12 ? bytes[adobe.dataOffset + 11] : null;
+  const colorType = components === 1 ? 'Grayscale'
+    : components === 3 ? (transform === 0 ? 'RGB' : 'YCbCr')
+    : components === 4 ? (transform === 2 ? 'YCCK' : 'CMYK')
+    : `${components} channels`;
+
+  return info('jpeg', {
+    bitDepth: bytes[sof.dataOffset],
+    colorType,
+    hasAlpha: false,
+    progressive: PROGRESSIVE_SOF.includes(sof.marker),
+  });
+};
+
+const PNG_COLOR_TYPES: Record<number, string> = {
+  0: 'Grayscale',
+  2: 'RGB',
+  3: 'Palette',
+  4: 'Grayscale + alpha',
+  6: 'RGBA',
+};
+
+const detectPng = (bytes: Uint8Array): SourceFormatInfo => {
+  const chunks = readPngChunks(bytes);
+  const ihdr = chunks.find((chunk) => chunk.type === 'IHDR' && chunk.length >= 13);
+  if (!ihdr) return info('png');
+
+  const colorType = bytes[ihdr.dataOffset + 9];
+  return info('png', {
+    bitDepth: bytes[ihdr.dataOffset + 8],
+    colorType: PNG_COLOR_TYPES[colorType] ?? null,
+    // tRNS adds transparency to palette, grayscale and RGB images
+    hasAlpha: colorType === 4 || colorType === 6 || chunks.some((chunk) => chunk.type === 'tRNS'),
+    progressive: bytes[ihdr.dataOffset + 12] === 1,
+  });
+};
+
+const detectGif = (bytes: Uint8Array): SourceFormatInfo => {
+  if (bytes.length < 13) return info('gif');
+  const packed = bytes[10];
+  // Bits per pixel follow from the global colour table size
+  const bitDepth = packed & 0x80 ? (packed & 0x07) + 1 : null;
+  let at = 13 + (packed & 0x80 ? 3 << ((packed & 0x07) + 1) : 0);
+  let transparent = false;
+
+  // Walk extension blocks up to the first image descriptor
+  while (at < bytes.length) {
+    const block = bytes[at];
+    if (block === 0x21) {
+      // Graphic Control Extension: bit 0 of its packed byte marks a transparent index
+      if (bytes[at + 1] === 0xf9 && bytes[at + 2] >= 4 && bytes[at + 3] & 0x01) transparent = true;
+      at += 2;
+      while (at < bytes.length && bytes[at] !== 0) at += bytes[at] + 1;
+      at++;
+    } else if (block === 0x2c) {
+      return info('gif', {
+        // A local colour table overrides the global one
+        bitDepth: bytes[at + 9] & 0x80 ? (bytes[at + 9] & 0x07) + 1 : bitDepth,
+        colorType: 'Palette',
+        hasAlpha: transparent,
+        progressive: Boolean(bytes[at + 9] & 0x40),
+      });
+    } else {
+      break;
+    }
+  }
+  return info('gif', { bitDepth, colorType: 'Palette', hasAlpha: transparent });
+};
+
+const detectWebp = (bytes: Uint8Array): SourceFormatInfo => {
+  const chunks = readRiffChunks(bytes);
+  const vp8x = chunks.find((chunk) => chunk.fourCC === 'VP8X');
+  const lossless = chunks.find((chunk) => chunk.fourCC === 'VP8L');
+  const alpha = vp8x
+    ? Boolean(bytes[vp8x.dataOffset] & 0x10)
+    : lossless ? Boolean((bytes[lossless.dataOffset + 4] >> 4) & 1) : false;
+
+  return info('webp', {
+    bitDepth: 8,
+    // Lossy WebP is always 4:2:0 YUV; lossless stores ARGB
+    colorType: lossless ? (alpha ? 'RGBA' : 'RGB') : 'YCbCr 4:2:0',
+    hasAlpha: alpha,
+    lossless: Boolean(lossless),
+  });
+};
+
+const AVIF_BRANDS = ['avif', 'avis'];
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx'];
+
+const detectIsobmff = (bytes: Uint8Array): SourceFormatInfo | null => {
+  const boxes = readBoxes(bytes, 0, bytes.length);
+  const ftyp = boxes.find((box) => box.type === 'ftyp');
+  if (!ftyp) return null;
+
+  // Major brand, minor version, then the compatible brands
+  const brands = [ascii(bytes, ftyp.dataOffset, 4)];
+  for (let at = ftyp.dataOffset + 8; at + 4 <= ftyp.end; at += 4) brands.push(ascii(bytes, at, 4));
+  const format: SourceFormat | null = brands.some((b) => AVIF_BRANDS.includes(b)) ? 'avif'
+    : brands.some((b) => HEIC_BRANDS.includes(b)) ? 'heic'
+    : null;
+  if (!format) return null;
+
+  // Item properties live in meta > iprp > ipco
+  const meta = boxes.find((box) => box.type === 'meta');
+  const iprp = meta && readBoxes(bytes, meta.dataOffset + 4, meta.end).find((box) => box.type === 'iprp');
+  const ipco = iprp && readBoxes(bytes, iprp.dataOffset, iprp.end).find((box) => box.type === 'ipco');
+  if (!ipco) return info(format);
+
+  const properties = readBoxes(bytes, ipco.dataOffset, ipco.end);
+  const pixi = properties.find((box) => box.type === 'pixi');
+  // pixi is a full box: version/flags, channel count, then bits per channel
+  const channels = pixi ? bytes[pixi.dataOffset + 4] : 0;
+  const alpha = properties.some((box) => {
+    if (box.type !== 'auxC') return false;
+    const urn = ascii(bytes, box.dataOffset + 4, box.end - box.dataOffset - 4);
+    return urn.includes('alpha') || urn.includes('auxid:1');
+  });
+
+  return info(format, {
+    bitDepth: pixi && channels ? bytes[pixi.dataOffset + 5] : null,
+    colorType: channels === 1 ? 'Grayscale' : channels === 3 ? 'YCbCr' : null,
+    hasAlpha: alpha,
+  });
+};
+
+const TIFF_PHOTOMETRIC: Record<number, string> = {
+  0: 'Grayscale',
+  1: 'Grayscale',
+  2: 'RGB',
+  3: 'Palette',
+  5: 'CMYK',
+  6: 'YCbCr',
+  8: 'CIELab',
+};
+
+const detectTiff = (bytes: Uint8Array): SourceFormatInfo => {
+  const tiff = parseTiff(bytes, 0);
+  if (!tiff) return info('tiff');
+
+  const photometric = getNumber(tiff.ifd0, TIFF_TAGS.PhotometricInterpretation);
+  return info('tiff', {
+    bitDepth: getNumber(tiff.ifd0, TIFF_TAGS.BitsPerSample) ?? 1,
+    colorType: photometric !== undefined ? TIFF_PHOTOMETRIC[photometric] ?? null : null,
+    // ExtraSamples marks channels beyond the colour ones, in practice alpha
+    hasAlpha: tiff.ifd0.entries.has(TIFF_TAGS.ExtraSamples),
+    // LZW, Deflate and PackBits are lossless; only JPEG-in-TIFF (6, 7) is not
+    lossless: ![6, 7].includes(getNumber(tiff.ifd0, TIFF_TAGS.Compression) ?? 1),
+  });
+};
+
+const detectBmp = (bytes: Uint8Array): SourceFormatInfo => {
+  const headerSize = u32le(bytes, 14);
+  const bitCount = u16le(bytes, 28);
+  const compression = u32le(bytes, 30);
+  // V3+ headers carry an alpha mask after the colour masks; BI_ALPHABITFIELDS (6) always has one
+  const alphaMask = headerSize >= 56 ? u32le(bytes, 14 + 52) : 0;
+  return info('bmp', {
+    bitDepth: bitCount,
+    colorType: bitCount <= 8 ? 'Palette' : 'RGB',
+    hasAlpha: bitCount === 32 && (alphaMask !== 0 || compression === 6),
+  });
+};
+
+const isIco = (bytes: Uint8Array) =>
+  bytes.length > 22 && bytes[0] === 0 && bytes[1] === 0 && bytes[2] === 1 && bytes[3] === 0 && u16le(bytes, 4) > 0;
+
+const detectIco = (bytes: Uint8Array): SourceFormatInfo => {
+  // Report the largest image in the directory, which is what browsers draw
+  const count = u16le(bytes, 4);
+  let best = -1, bestArea = -1;
+  for (let i = 0; i < count && 6 + i * 16 + 16 <= bytes.length; i++) {
+    const at = 6 + i * 16;
+    // A stored 0 means 256 pixels
+    const area = (bytes[at] || 256) * (bytes[at + 1] || 256);
+    if (area > bestArea) {
+      best = at;
+      bestArea = area;
+    }
+  }
+  if (best < 0) return info('ico');
+
+  const imageOffset = u32le(bytes, best + 12);
+  const image = bytes.subarray(imageOffset);
+  if (isPng(image)) return { ...detectPng(image), format: 'ico', label: 'ICO (PNG)' };
+
+  // Embedded DIB: the BITMAPINFOHEADER without the file header
+  const bitCount = image.length >= 16 ? u16le(image, 14) : u16le(bytes, best + 6);
+  return info('ico', {
+    bitDepth: bitCount || null,
+    colorType: bitCount <= 8 ? 'Palette' : 'RGB',
+    // Icons are always transparent: 32-bit ones through alpha, older ones through a 1-bit AND mask
+    hasAlpha: true,
+  });
+};
+
+/** Identifies an image file from its magic bytes and reads its pixel format from the header. */
+export const detectFormat = (bytes: Uint8Array): SourceFormatInfo => {
+  if (isJpeg(bytes)) return detectJpeg(bytes);
+  if (isPng(bytes)) return detectPng(bytes);
+  if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') return detectGif(bytes);
+  if (isRiffWebp(bytes)) return detectWebp(bytes);
+  if (isIsobmff(bytes)) {
+    const heif = detectIsobmff(bytes);
+    if (heif) return heif;
+  }
+  if (isTiffHeader(bytes)) return detectTiff(bytes);
+  if (isBmp(bytes)) return detectBmp(bytes);
+  if (isIco(bytes)) return detectIco(bytes);
+  return info('unknown');
+};
+
+/** Scan layout in the terms the format uses: progressive/baseline for JPEG, interlacing otherwise. */
+export const describeScan = (info: SourceFormatInfo): string | null => {
+  if (info.progressive === null) return null;
+  if (info.format === 'jpeg') return info.progressive ? 'Progressive' : 'Baseline';
+  return info.progressive ? 'Interlaced' : 'Non-interlaced';
+};
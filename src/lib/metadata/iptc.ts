@@ -0,0 +1,122 @@
+import { ascii, asciiBytes, concat } from "./chunks";
+import { isJpeg, readJpegSegments } from "./containers";
+
+// IPTC-IIM datasets live in a Photoshop "8BIM" image resource (id 0x0404)
+// inside a JPEG APP13 segment.
+
+export interface IptcDataset {
+  record: number;
+  dataset: number;
+  value: Uint8Array;
+}
+
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+const IPTC_RESOURCE_ID = 0x0404;
+// ESC % G: the coded character set marker for UTF-8
+const UTF8_MARKER = new Uint8Array([0x1b, 0x25, 0x47]);
+
+export const IPTC_NAMES: Record<string, string> = {
+  '1:90': 'Coded Character Set',
+  '2:0': 'Record Version',
+  '2:5': 'Object Name',
+  '2:15': 'Category',
+  '2:25': 'Keywords',
+  '2:40': 'Special Instructions',
+  '2:55': 'Date Created',
+  '2:60': 'Time Created',
+  '2:80': 'By-line',
+  '2:85': 'By-line Title',
+  '2:90': 'City',
+  '2:92': 'Sub-location',
+  '2:95': 'Province/State',
+  '2:100': 'Country Code',
+  '2:101': 'Country',
+  '2:105': 'Headline',
+  '2:110': 'Credit',
+  '2:115': 'Source',
+  '2:116': 'Copyright Notice',
+  '2:120': 'Caption/Abstract',
+  '2:122': 'Writer/Editor',
+};
+
+export const IPTC_BYLINE = '2:80';
+export const IPTC_COPYRIGHT = '2:116';
+
+export const iptcKey = (ds: IptcDataset) => `${ds.record}:${ds.dataset}`;
+
+const parseDatasets = (bytes: Uint8Array, start: number, end: number): IptcDataset[] => {
+  const datasets: IptcDataset[] = [];
+  let at = start;
+  while (at + 5 <= end && bytes[at] === 0x1c) {
+    const length = (bytes[at + 3] << 8) | bytes[at + 4];
+    // Extended datasets (length high bit set) are not used for text fields
+    if (length & 0x8000 || at + 5 + length > end) break;
+    datasets.push({ record: bytes[at + 1], dataset: bytes[at + 2], value: bytes.slice(at + 5, at + 5 + length) });
+    at += 5 + length;
+  }
+  return datasets;
+};
+
+/** Reads IPTC datasets from a JPEG's Photoshop APP13 segment. */
+export const readIptc = (bytes: Uint8Array): IptcDataset[] => {
+  if (!isJpeg(bytes)) return [];
+  const app13 = readJpegSegments(bytes).find(
+    (seg) => seg.marker === 0xed && ascii(bytes, seg.dataOffset, PHOTOSHOP_HEADER.length) === PHOTOSHOP_HEADER,
+  );
+  if (!app13) return [];
+
+  const end = app13.dataOffset + app13.length;
+  let at = app13.dataOffset + PHOTOSHOP_HEADER.length;
+  while (at + 12 <= end && ascii(bytes, at, 4) === '8BIM') {
+    const id = (bytes[at + 4] << 8) | bytes[at + 5];
+    // Pascal string name, padded so that length byte + text is even
+    const nameLength = bytes[at + 6];
+    at += 6 + nameLength + 1 + ((nameLength + 1) & 1);
+    const size = ((bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3]) >>> 0;
+    at += 4;
+    if (at + size > end) break;
+    if (id === IPTC_RESOURCE_ID) return parseDatasets(bytes, at, at + size);
+    at += size + (size & 1);
+  }
+  return [];
+};
+
+const isUtf8 = (datasets: IptcDataset[]) =>
+  datasets.some((ds) => iptcKey(ds) === '1:90' && ds.value.length === 3 && ds.value.every((b, i) => b === UTF8_MARKER[i]));
+
+export const decodeIptcValue = (ds: IptcDataset, datasets: IptcDataset[]): string => {
+  if (iptcKey(ds) === '1:90') return isUtf8([ds]) ? 'UTF-8' : `(${ds.value.length} bytes)`;
+  if (iptcKey(ds) === '2:0' && ds.value.length === 2) return String((ds.value[0] << 8) | ds.value[1]);
+  return new TextDecoder(isUtf8(datasets) ? 'utf-8' : 'latin1').decode(ds.value);
+};
+
+/**
+ * Returns the datasets with `key` replaced by a single UTF-8 value. Adds the
+ * UTF-8 character set marker when the block does not declare one.
+ */
+export const setIptcText = (datasets: IptcDataset[], key: string, text: string): IptcDataset[] => {
+  const [record, dataset] = key.split(':').map(Number);
+  const out = datasets.filter((ds) => iptcKey(ds) !== key);
+  if (!datasets.some((ds) => iptcKey(ds) === '1:90')) {
+    out.unshift({ record: 1, dataset: 90, value: UTF8_MARKER });
+  }
+  if (text) out.push({ record, dataset, value: new TextEncoder().encode(text) });
+  return out.sort((a, b) => a.record - b.record || a.dataset - b.dataset);
+};
+
+/** Builds an APP13 payload holding only the IPTC resource. */
+export const buildIptcPayload = (datasets: IptcDataset[]): Uint8Array => {
+  const body = concat(
+    ...datasets.map((ds) => {
+      const head = new Uint8Array([0x1c, ds.record, ds.dataset, ds.value.length >> 8, ds.value.length & 0xff]);
+      return concat(head, ds.value);
+    }),
+  );
+  const resourceHeader = new Uint8Array(12);
+  resourceHeader.set(asciiBytes('8BIM'));
+  new DataView(resourceHeader.buffer).setUint16(4, IPTC_RESOURCE_ID);
+  // bytes 6..7: empty Pascal name plus pad byte
+  new DataView(resourceHeader.buffer).setUint32(8, body.length);
+  const pad = body.length & 1 ? new Uint8Array(1) : new Uint8Array(0);
+  return concat(asciiBytes(PHOTOSHOP_HEADER), resourceHeader, body, pad);
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { bareAvif } from "@/test/images";
+import { asciiBytes } from "./chunks";
+import { findExif, readBoxes } from "./containers";
+import { setIsobmffMetadata } from "./isobmff";
+import { parseTiff } from "./tiff";
+import { asciiEntry, buildTiff } from "./tiff-writer";
+
+const payload = Uint8Array.from({ length: 40 }, (_, i) => i * 3);
+const exif = buildTiff({ littleEndian: false, ifd0: [asciiEntry(0x013b, 'Someone')], exif: [], gps: [] });
+
+// Every item's bytes by id, following the (version 0 or 1, 32-bit) location table
+const itemData = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const meta = readBoxes(bytes, 0, bytes.length).find((box) => box.type === 'meta');
+  const iloc = meta && readBoxes(bytes, meta.dataOffset + 4, meta.end).find((box) => box.type === 'iloc');
+  if (!iloc) return {};
+  const version = bytes[iloc.dataOffset];
+  let at = iloc.dataOffset + 8;
+  const items: Record<number, Uint8Array> = {};
+  for (let count = view.getUint16(at - 2); count > 0; count--) {
+    const id = view.getUint16(at);
+    at += version === 1 ? 6 : 4;
+    const base = view.getUint32(at);
+    at += 6; // base offset and an extent count of one
+    const offset = view.getUint32(at);
+    const length = view.getUint32(at + 4);
+    at += 8;
+    items[id] = bytes.subarray(base + offset, base + offset + length);
+  }
+  return items;
+};
+
+describe('setIsobmffMetadata', () => {
+  it('adds an EXIF item and keeps the image item readable', () => {
+    const out = setIsobmffMetadata(bareAvif(payload), { exif });
+    const exifAt = findExif(out);
+    expect(exifAt).not.toBeNull();
+    expect(parseTiff(out, exifAt ?? 0)?.ifd0?.entries.get(0x013b)?.value).toBe('Someone');
+    expect(itemData(out)[1]).toEqual(payload);
+  });
+
+  it('replaces an existing item instead of adding a second', () => {
+    const once = setIsobmffMetadata(bareAvif(payload), { exif, xmp: asciiBytes('<x:xmpmeta/>') });
+    const twice = setIsobmffMetadata(once, { exif });
+    expect(Object.keys(itemData(twice))).toHaveLength(3);
+    expect(itemData(twice)[1]).toEqual(payload);
+  });
+
+  it('removes items set to null and keeps those left undefined', () => {
+    const both = setIsobmffMetadata(bareAvif(payload), { exif, xmp: asciiBytes('<x:xmpmeta/>') });
+    const withoutExif = setIsobmffMetadata(both, { exif: null });
+    expect(findExif(withoutExif)).toBeNull();
+    expect(Object.values(itemData(withoutExif)).map((data) => new TextDecoder().decode(data))).toContain('<x:xmpmeta/>');
+    expect(itemData(withoutExif)[1]).toEqual(payload);
+  });
+
+  it('leaves other files alone', () => {
+    const bytes = new Uint8Array(20);
+    expect(setIsobmffMetadata(bytes, { exif })).toBe(bytes);
+  });
+});
@@ -0,0 +1,257 @@
+import { ascii, asciiBytes, concat } from "./chunks";
+import { isIsobmff, readBoxes, type Box } from "./containers";
+
+// Item type of an EXIF item, and the content type of a mime item holding XMP
+const EXIF_ITEM = 'Exif';
+const XMP_CONTENT_TYPE = 'application/rdf+xml';
+
+export interface IsobmffMetadataItems {
+  /** TIFF block; undefined keeps the existing item, null removes it */
+  exif?: Uint8Array | null;
+  /** XMP packet; undefined keeps the existing item, null removes it */
+  xmp?: Uint8Array | null;
+}
+
+interface Extent {
+  index: number;
+  offset: number;
+  length: number;
+}
+
+interface Location {
+  id: number;
+  constructionMethod: number;
+  dataReferenceIndex: number;
+  baseOffset: number;
+  extents: Extent[];
+}
+
+interface ItemInfo {
+  id: number;
+  /** The whole infe box, copied as-is when the item is kept */
+  box: Uint8Array;
+  metadata: 'exif' | 'xmp' | null;
+}
+
+const readUint = (view: DataView, at: number, size: number) => {
+  if (size === 0) return 0;
+  if (size === 2) return view.getUint16(at);
+  if (size === 4) return view.getUint32(at);
+  // 8-byte fields: files beyond 4 GB are not something we handle in the browser
+  return view.getUint32(at + 4);
+};
+
+const box = (type: string, ...parts: Uint8Array[]) => {
+  const body = concat(...parts);
+  const header = new Uint8Array(8);
+  new DataView(header.buffer).setUint32(0, 8 + body.length);
+  header.set(asciiBytes(type), 4);
+  return concat(header, body);
+};
+
+const fullBox = (type: string, version: number, ...parts: Uint8Array[]) =>
+  box(type, new Uint8Array([version, 0, 0, 0]), ...parts);
+
+const uint = (value: number, size: 2 | 4) => {
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  if (size === 2) view.setUint16(0, value);
+  else view.setUint32(0, value);
+  return out;
+};
+
+const cString = (text: string) => concat(asciiBytes(text), new Uint8Array([0]));
+
+const readItemInfos = (bytes: Uint8Array, view: DataView, iinf: Box): ItemInfo[] => {
+  const start = iinf.dataOffset + 4 + (bytes[iinf.dataOffset] === 0 ? 2 : 4);
+  return readBoxes(bytes, start, iinf.end)
+    .filter((infe) => infe.type === 'infe')
+    .map((infe) => {
+      const version = bytes[infe.dataOffset];
+      const idSize = version === 3 ? 4 : 2;
+      const id = readUint(view, infe.dataOffset + 4, idSize);
+      let metadata: ItemInfo['metadata'] = null;
+      if (version >= 2) {
+        const typeAt = infe.dataOffset + 4 + idSize + 2;
+        const itemType = ascii(bytes, typeAt, 4);
+        // item_name, then for mime items the content type, both NUL-terminated
+        let at = typeAt + 4;
+        while (at < infe.end && bytes[at] !== 0) at++;
+        const contentType = ascii(bytes, at + 1, XMP_CONTENT_TYPE.length);
+        if (itemType === EXIF_ITEM) metadata = 'exif';
+        else if (itemType === 'mime' && contentType === XMP_CONTENT_TYPE) metadata = 'xmp';
+      }
+      return { id, box: bytes.subarray(infe.offset, infe.end), metadata };
+    });
+};
+
+const readLocations = (bytes: Uint8Array, view: DataView, iloc: Box) => {
+  const version = bytes[iloc.dataOffset];
+  let at = iloc.dataOffset + 4;
+  const offsetSize = bytes[at] >> 4;
+  const lengthSize = bytes[at] & 0x0f;
+  const baseOffsetSize = bytes[at + 1] >> 4;
+  const indexSize = version === 1 || version === 2 ? bytes[at + 1] & 0x0f : 0;
+  at += 2;
+  const idSize = version < 2 ? 2 : 4;
+  const itemCount = readUint(view, at, idSize);
+  at += idSize;
+
+  const locations: Location[] = [];
+  for (let i = 0; i < itemCount && at < iloc.end; i++) {
+    const id = readUint(view, at, idSize);
+    at += idSize;
+    const constructionMethod = version === 1 || version === 2 ? view.getUint16(at) & 0x0f : 0;
+    if (version === 1 || version === 2) at += 2;
+    const dataReferenceIndex = view.getUint16(at);
+    at += 2;
+    const baseOffset = readUint(view, at, baseOffsetSize);
+    at += baseOffsetSize;
+    const extentCount = view.getUint16(at);
+    at += 2;
+    const extents: Extent[] = [];
+    for (let e = 0; e < extentCount; e++) {
+      const index = readUint(view, at, indexSize);
+      at += indexSize;
+      const offset = readUint(view, at, offsetSize);
+      at += offsetSize;
+      const length = readUint(view, at, lengthSize);
+      at += lengthSize;
+      extents.push({ index, offset, length });
+    }
+    locations.push({ id, constructionMethod, dataReferenceIndex, baseOffset, extents });
+  }
+  return { locations, indexSize };
+};
+
+// Version 1 with 32-bit offsets and lengths; a version 2 table only when ids need 32 bits
+const writeLocations = (locations: Location[], indexSize: number) => {
+  const version = locations.some((location) => location.id > 0xffff) ? 2 : 1;
+  const idSize = version === 2 ? 4 : 2;
+  const parts: Uint8Array[] = [new Uint8Array([0x44, 0x40 | indexSize]), uint(locations.length, idSize)];
+  for (const location of locations) {
+    parts.push(uint(location.id, idSize), uint(location.constructionMethod, 2), uint(location.dataReferenceIndex, 2));
+    parts.push(uint(location.baseOffset, 4), uint(location.extents.length, 2));
+    for (const extent of location.extents) {
+      if (indexSize) {
+        const index = new Uint8Array(indexSize);
+        new DataView(index.buffer).setUint32(indexSize - 4, extent.index);
+        parts.push(index);
+      }
+      parts.push(uint(extent.offset, 4), uint(extent.length, 4));
+    }
+  }
+  return fullBox('iloc', version, ...parts);
+};
+
+const metadataItemInfo = (id: number, kind: 'exif' | 'xmp') => {
+  const version = id > 0xffff ? 3 : 2;
+  const body = [uint(id, version === 3 ? 4 : 2), uint(0, 2)];
+  if (kind === 'exif') body.push(asciiBytes(EXIF_ITEM), cString(''));
+  else body.push(asciiBytes('mime'), cString(''), cString(XMP_CONTENT_TYPE));
+  return fullBox('infe', version, ...body);
+};
+
+/**
+ * Rewrites an AVIF/HEIF file with its EXIF and/or XMP items replaced. New
+ * items describe the primary image ('cdsc' references) and keep their data
+ * in an mdat box appended to the file; the item locations of everything
+ * after the rewritten meta box are shifted to match.
+ */
+export const setIsobmffMetadata = (bytes: Uint8Array, update: IsobmffMetadataItems): Uint8Array => {
+  if (!isIsobmff(bytes)) return bytes;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const top = readBoxes(bytes, 0, bytes.length);
+  const meta = top.find((b) => b.type === 'meta');
+  if (!meta) return bytes;
+  const children = readBoxes(bytes, meta.dataOffset + 4, meta.end);
+  const iinf = children.find((b) => b.type === 'iinf');
+  const iloc = children.find((b) => b.type === 'iloc');
+  const pitm = children.find((b) => b.type === 'pitm');
+  if (!iinf || !iloc || !pitm) return bytes;
+  const primary = readUint(view, pitm.dataOffset + 4, bytes[pitm.dataOffset] === 0 ? 2 : 4);
+
+  const replaced = (kind: ItemInfo['metadata']) => (kind === 'exif' && update.exif !== undefined) || (kind === 'xmp' && update.xmp !== undefined);
+  const infos = readItemInfos(bytes, view, iinf);
+  const dropped = new Set(infos.filter((info) => replaced(info.metadata)).map((info) => info.id));
+  const kept = infos.filter((info) => !dropped.has(info.id));
+  const { locations, indexSize } = readLocations(bytes, view, iloc);
+
+  let nextId = Math.max(primary, ...infos.map((info) => info.id)) + 1;
+  const added = (
+    [
+      ['exif', update.exif && concat(new Uint8Array(4), update.exif)],
+      ['xmp', update.xmp],
+    ] as const
+  )
+    .filter((entry): entry is ['exif' | 'xmp', Uint8Array] => Boolean(entry[1]))
+    .map(([kind, payload]) => ({ id: nextId++, kind, payload }));
+
+  // Keep the iref version of the file, so its item ids stay the width it chose
+  const iref = children.find((b) => b.type === 'iref');
+  const irefVersion = iref ? bytes[iref.dataOffset] : nextId > 0x10000 ? 1 : 0;
+  const refIdSize = irefVersion === 0 ? 2 : 4;
+  const references = iref
+    ? readBoxes(bytes, iref.dataOffset + 4, iref.end)
+      .filter((ref) => !dropped.has(readUint(view, ref.dataOffset, refIdSize)))
+      .map((ref) => bytes.subarray(ref.offset, ref.end))
+    : [];
+  for (const item of added) {
+    references.push(box('cdsc', uint(item.id, refIdSize), uint(1, 2), uint(primary, refIdSize)));
+  }
+
+  // Sizes of the new boxes do not depend on the offsets written into them, so
+  // the meta box is laid out once to learn how far the data behind it moves
+  const buildMeta = (delta: number, appendedAt: number) => {
+    const shifted = locations
+      .filter((location) => !dropped.has(location.id))
+      .map((location) =>
+        location.constructionMethod !== 0
+          ? location
+          : {
+            ...location,
+            baseOffset: 0,
+            extents: location.extents.map((extent) => {
+              const offset = location.baseOffset + extent.offset;
+              return { ...extent, offset: offset >= meta.end ? offset + delta : offset };
+            }),
+          },
+      );
+    let at = appendedAt + 8;
+    for (const item of added) {
+      shifted.push({ id: item.id, constructionMethod: 0, dataReferenceIndex: 0, baseOffset: 0, extents: [{ index: 0, offset: at, length: item.payload.length }] });
+      at += item.payload.length;
+    }
+
+    const infoCount = kept.length + added.length;
+    const newIinf = fullBox(
+      'iinf',
+      infoCount > 0xffff ? 1 : 0,
+      uint(infoCount, infoCount > 0xffff ? 4 : 2),
+      ...kept.map((info) => info.box),
+      ...added.map((item) => metadataItemInfo(item.id, item.kind)),
+    );
+    const newIref = references.length ? fullBox('iref', irefVersion, ...references) : null;
+
+    const parts: Uint8Array[] = [];
+    for (const child of children) {
+      if (child === iinf) {
+        parts.push(newIinf);
+        // Files without references get theirs right after the item infos
+        if (!iref && newIref) parts.push(newIref);
+      } else if (child === iloc) {
+        parts.push(writeLocations(shifted, indexSize));
+      } else if (child === iref) {
+        if (newIref) parts.push(newIref);
+      } else {
+        parts.push(bytes.subarray(child.offset, child.end));
+      }
+    }
+    return fullBox('meta', bytes[meta.dataOffset], ...parts);
+  };
+
+  const delta = buildMeta(0, 0).length - (meta.end - meta.offset);
+  const appendedAt = bytes.length + delta;
+  const rebuilt = concat(bytes.subarray(0, meta.offset), buildMeta(delta, appendedAt), bytes.subarray(meta.end));
+  return added.length ? concat(rebuilt, box('mdat', ...added.map((item) => item.payload))) : rebuilt;
+};
@@ -0,0 +1,72 @@
+import { findExif } from "./containers";
+import { TIFF_TAGS, getNumber, parseTiff } from "./tiff";
+
+/** EXIF Orientation values 1–8; 1 means the stored pixels are already upright. */
+export type Orientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+export const ORIENTATION_LABELS: Record<Orientation, string> = {
+  1: 'Normal',
+  2: 'Mirrored',
+  3: 'Rotated 180°',
+  4: 'Flipped vertically',
+  5: 'Mirrored, rotated 90° CCW',
+  6: 'Rotated 90° CW',
+  7: 'Mirrored, rotated 90° CW',
+  8: 'Rotated 90° CCW',
+};
+
+const isOrientation = (value: number | undefined): value is Orientation =>
+  value !== undefined && Number.isInteger(value) && value >= 1 && value <= 8;
+
+export const readOrientation = (bytes: Uint8Array): Orientation => {
+  const offset = findExif(bytes);
+  const tiff = offset !== null ? parseTiff(bytes, offset) : null;
+  const value = getNumber(tiff?.ifd0 ?? null, TIFF_TAGS.Orientation);
+  return isOrientation(value) ? value : 1;
+};
+
+/**
+ * Returns a copy of the file with its EXIF Orientation set to 1, so every
+ * browser decodes the stored pixels as-is and we can apply the rotation
+ * ourselves. Browsers disagree on whether canvas draws honour the tag.
+ */
+export const clearOrientation = (bytes: Uint8Array): Uint8Array => {
+  const offset = findExif(bytes);
+  const tiff = offset !== null ? parseTiff(bytes, offset) : null;
+  const entry = tiff?.ifd0?.entries.get(TIFF_TAGS.Orientation);
+  if (!tiff || !entry || entry.count !== 1 || (entry.type !== 3 && entry.type !== 4)) return bytes;
+
+  const out = bytes.slice();
+  const view = new DataView(out.buffer);
+  if (entry.type === 3) view.setUint16(entry.entryOffset + 8, 1, tiff.littleEndian);
+  else view.setUint32(entry.entryOffset + 8, 1, tiff.littleEndian);
+  return out;
+};
+
+/** Orientations 5–8 swap width and height. */
+export const isTransposed = (orientation: Orientation) => orientation >= 5;
+
+export const orientedSize = (width: number, height: number, orientation: Orientation) =>
+  isTransposed(orientation) ? { width: height, height: width } : { width, height };
+
+/**
+ * Canvas transform that maps the stored pixels onto an upright output of
+ * `width` × `height`. Draw the image at (0, 0) with its stored (pre-rotation)
+ * size afterwards.
+ */
+export const orientationTransform = (
+  orientation: Orientation,
+  width: number,
+  height: number,
+): [number, number, number, number, number, number] => {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, width, 0];
+    case 7: return [0, -1, -1, 0, width, height];
+    case 8: return [0, -1, 1, 0, 0, height];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+};
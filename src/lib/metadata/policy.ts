@@ -0,0 +1,21 @@
+/**
+ * What to carry over from the original upload into the exported file:
+ * - `keep-all`: everything we can safely re-embed
+ * - `copyright-only`: author and copyright fields only
+ * - `strip-gps`: everything except location coordinates
+ * - `strip-all`: nothing beyond the output density
+ */
+export type MetadataPolicy = 'keep-all' | 'copyright-only' | 'strip-gps' | 'strip-all';
+
+export const METADATA_POLICIES: { value: MetadataPolicy; label: string }[] = [
+  { value: 'keep-all', label: 'Keep all' },
+  { value: 'copyright-only', label: 'Keep author & copyright only' },
+  { value: 'strip-gps', label: 'Strip GPS location' },
+  { value: 'strip-all', label: 'Strip everything' },
+];
+
+/** User overrides for the ownership fields; an absent key leaves the original value alone. */
+export interface MetadataEdits {
+  author?: string;
+  copyright?: string;
+}
@@ -0,0 +1,126 @@
+import { ascii } from "./chunks";
+import { findExif, isBmp, isJpeg, isPng, readJpegSegments, readPngChunks } from "./containers";
+import { TIFF_TAGS, getNumber, isTiffHeader, parseTiff } from "./tiff";
+
+export type ResolutionSource = 'jfif' | 'exif' | 'png' | 'tiff' | 'bmp' | 'none';
+
+export interface Resolution {
+  /** Horizontal pixels per inch */
+  x: number;
+  /** Vertical pixels per inch */
+  y: number;
+  source: ResolutionSource;
+  /** True when the file declares no usable density and `x`/`y` are a fallback */
+  estimated: boolean;
+}
+
+// What browsers, print drivers and most editors assume for untagged images
+export const DEFAULT_DPI = 72;
+
+const CM_PER_INCH = 2.54;
+const METERS_PER_INCH = 0.0254;
+
+export const unknownResolution = (): Resolution => ({
+  x: DEFAULT_DPI,
+  y: DEFAULT_DPI,
+  source: 'none',
+  estimated: true,
+});
+
+// Values converted from metric units (e.g. 11811 px/m) land a hair off whole numbers
+const tidy = (dpi: number) => Math.round(dpi * 10) / 10;
+
+const valid = (x: number, y: number) => Number.isFinite(x) && Number.isFinite(y) && x > 0 && y > 0;
+
+const readJfif = (bytes: Uint8Array): Resolution | null => {
+  const app0 = readJpegSegments(bytes).find((seg) => seg.marker === 0xe0 && seg.length >= 12);
+  if (!app0) return null;
+  const at = app0.dataOffset;
+  if (ascii(bytes, at, 5) !== 'JFIF\0') return null;
+
+  const units = bytes[at + 7];
+  const x = (bytes[at + 8] << 8) | bytes[at + 9];
+  const y = (bytes[at + 10] << 8) | bytes[at + 11];
+  // Units 0 only gives a pixel aspect ratio, not a density
+  if (units === 0 || !valid(x, y)) return null;
+
+  const scale = units === 2 ? CM_PER_INCH : 1;
+  return { x: tidy(x * scale), y: tidy(y * scale), source: 'jfif', estimated: false };
+};
+
+const readTiffResolution = (bytes: Uint8Array, start: number, source: ResolutionSource): Resolution | null => {
+  const tiff = parseTiff(bytes, start);
+  if (!tiff) return null;
+
+  const x = getNumber(tiff.ifd0, TIFF_TAGS.XResolution);
+  const y = getNumber(tiff.ifd0, TIFF_TAGS.YResolution) ?? x;
+  // ResolutionUnit: 1 = none, 2 = inch (default), 3 = centimetre
+  const unit = getNumber(tiff.ifd0, TIFF_TAGS.ResolutionUnit) ?? 2;
+  if (x === undefined || unit === 1 || !valid(x, y)) return null;
+
+  const scale = unit === 3 ? CM_PER_INCH : 1;
+  return { x: tidy(x * scale), y: tidy(y * scale), source, estimated: false };
+};
+
+const readPhys = (bytes: Uint8Array): Resolution | null => {
+  const phys = readPngChunks(bytes).find((chunk) => chunk.type === 'pHYs' && chunk.length >= 9);
+  if (!phys) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset + phys.dataOffset, 9);
+  const x = view.getUint32(0);
+  const y = view.getUint32(4);
+  // Unit 0 is aspect ratio only; 1 is pixels per metre
+  if (view.getUint8(8) !== 1 || !valid(x, y)) return null;
+
+  return { x: tidy(x * METERS_PER_INCH), y: tidy(y * METERS_PER_INCH), source: 'png', estimated: false };
+};
+
+const readBmpResolution = (bytes: Uint8Array): Resolution | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const x = view.getInt32(38, true);
+  const y = view.getInt32(42, true);
+  if (!valid(x, y)) return null;
+
+  return { x: tidy(x * METERS_PER_INCH), y: tidy(y * METERS_PER_INCH), source: 'bmp', estimated: false };
+};
+
+/**
+ * Reads the pixel density declared by an image file. Understands JFIF APP0,
+ * EXIF (in JPEG, PNG, WebP and AVIF/HEIF), PNG pHYs, TIFF resolution tags and
+ * the BMP info header.
+ * Falls back to {@link DEFAULT_DPI} flagged as estimated.
+ */
+export const readResolution = (bytes: Uint8Array): Resolution => {
+  if (isTiffHeader(bytes)) {
+    return readTiffResolution(bytes, 0, 'tiff') ?? unknownResolution();
+  }
+
+  if (isJpeg(bytes)) {
+    const jfif = readJfif(bytes);
+    if (jfif) return jfif;
+  }
+
+  if (isPng(bytes)) {
+    const phys = readPhys(bytes);
+    if (phys) return phys;
+  }
+
+  if (isBmp(bytes)) {
+    return readBmpResolution(bytes) ?? unknownResolution();
+  }
+
+  const exif = findExif(bytes);
+  if (exif !== null) {
+    const resolution = readTiffResolution(bytes, exif, 'exif');
+    if (resolution) return resolution;
+  }
+
+  return unknownResolution();
+};
+
+export const formatResolution = (resolution: Resolution): string => {
+  const value = resolution.x === resolution.y
+    ? `${Math.round(resolution.x)}`
+    : `${Math.round(resolution.x)} × ${Math.round(resolution.y)}`;
+  return resolution.estimated ? `${value} (unknown, estimated)` : value;
+};
@@ -0,0 +1,129 @@
+import { TIFF_TAGS, TYPE_SIZES, type TiffEntry } from "./tiff";
+
+/** A directory entry ready to serialise: `raw` must already be in the target byte order. */
+export interface TiffWriteEntry {
+  tag: number;
+  type: number;
+  count: number;
+  raw: Uint8Array;
+}
+
+export interface TiffWriteData {
+  littleEndian: boolean;
+  ifd0: TiffWriteEntry[];
+  exif: TiffWriteEntry[];
+  gps: TiffWriteEntry[];
+}
+
+export const fromParsed = (entry: TiffEntry): TiffWriteEntry => ({
+  tag: entry.tag,
+  type: entry.type,
+  count: entry.count,
+  raw: entry.raw,
+});
+
+export const asciiEntry = (tag: number, text: string): TiffWriteEntry => {
+  const encoded = new TextEncoder().encode(text);
+  const raw = new Uint8Array(encoded.length + 1);
+  raw.set(encoded);
+  return { tag, type: 2, count: raw.length, raw };
+};
+
+export const shortEntry = (tag: number, value: number, littleEndian: boolean): TiffWriteEntry => {
+  const raw = new Uint8Array(2);
+  new DataView(raw.buffer).setUint16(0, value, littleEndian);
+  return { tag, type: 3, count: 1, raw };
+};
+
+export const shortsEntry = (tag: number, values: number[], littleEndian: boolean): TiffWriteEntry => {
+  const raw = new Uint8Array(values.length * 2);
+  const view = new DataView(raw.buffer);
+  values.forEach((value, i) => view.setUint16(i * 2, value, littleEndian));
+  return { tag, type: 3, count: values.length, raw };
+};
+
+export const longEntry = (tag: number, value: number, littleEndian: boolean): TiffWriteEntry => {
+  const raw = new Uint8Array(4);
+  new DataView(raw.buffer).setUint32(0, value, littleEndian);
+  return { tag, type: 4, count: 1, raw };
+};
+
+export const toRational = (value: number): [number, number] =>
+  Number.isInteger(value) ? [value, 1] : [Math.round(value * 10000), 10000];
+
+export const rationalEntry = (tag: number, value: number, littleEndian: boolean): TiffWriteEntry => {
+  const raw = new Uint8Array(8);
+  const view = new DataView(raw.buffer);
+  const [num, den] = toRational(value);
+  view.setUint32(0, num, littleEndian);
+  view.setUint32(4, den, littleEndian);
+  return { tag, type: 5, count: 1, raw };
+};
+
+const directorySize = (entries: TiffWriteEntry[]) => {
+  let data = 0;
+  for (const entry of entries) {
+    const size = TYPE_SIZES[entry.type] * entry.count;
+    if (size > 4) data += size + (size & 1);
+  }
+  return 2 + entries.length * 12 + 4 + data;
+};
+
+/**
+ * Serialises IFD0 plus optional EXIF and GPS sub-directories into a TIFF
+ * block. Sub-directory pointers are generated; any stale pointer entries in
+ * the input are ignored.
+ */
+export const buildTiff = (data: TiffWriteData): Uint8Array => {
+  const little = data.littleEndian;
+  const pointerTags: number[] = [TIFF_TAGS.ExifIFDPointer, TIFF_TAGS.GPSInfoIFDPointer, TIFF_TAGS.InteropIFDPointer];
+  const clean = (entries: TiffWriteEntry[]) =>
+    entries.filter((e) => !pointerTags.includes(e.tag)).sort((a, b) => a.tag - b.tag);
+
+  const exif = clean(data.exif);
+  const gps = clean(data.gps);
+  const ifd0 = [
+    ...clean(data.ifd0),
+    ...(exif.length ? [longEntry(TIFF_TAGS.ExifIFDPointer, 0, little)] : []),
+    ...(gps.length ? [longEntry(TIFF_TAGS.GPSInfoIFDPointer, 0, little)] : []),
+  ].sort((a, b) => a.tag - b.tag);
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + directorySize(ifd0);
+  const gpsOffset = exifOffset + (exif.length ? directorySize(exif) : 0);
+  const total = gpsOffset + (gps.length ? directorySize(gps) : 0);
+
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  out.set(little ? [0x49, 0x49, 0x2a, 0x00] : [0x4d, 0x4d, 0x00, 0x2a]);
+  view.setUint32(4, ifd0Offset, little);
+
+  const writeDirectory = (entries: TiffWriteEntry[], offset: number) => {
+    view.setUint16(offset, entries.length, little);
+    let dataAt = offset + 2 + entries.length * 12 + 4;
+    entries.forEach((entry, i) => {
+      const at = offset + 2 + i * 12;
+      view.setUint16(at, entry.tag, little);
+      view.setUint16(at + 2, entry.type, little);
+      view.setUint32(at + 4, entry.count, little);
+
+      let raw = entry.raw;
+      if (entry.tag === TIFF_TAGS.ExifIFDPointer) raw = longEntry(0, exifOffset, little).raw;
+      if (entry.tag === TIFF_TAGS.GPSInfoIFDPointer) raw = longEntry(0, gpsOffset, little).raw;
+
+      if (raw.length <= 4) {
+        out.set(raw, at + 8);
+      } else {
+        view.setUint32(at + 8, dataAt, little);
+        out.set(raw, dataAt);
+        dataAt += raw.length + (raw.length & 1);
+      }
+    });
+    // Next-IFD link stays zero: we never write a thumbnail directory
+  };
+
+  writeDirectory(ifd0, ifd0Offset);
+  if (exif.length) writeDirectory(exif, exifOffset);
+  if (gps.length) writeDirectory(gps, gpsOffset);
+  return out;
+};
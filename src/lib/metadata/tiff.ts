@@ -0,0 +1,169 @@
+// Minimal TIFF/EXIF IFD reader. Used for EXIF blocks embedded in JPEG, PNG,
+// WebP and AVIF files as well as for standalone TIFF files.
+
+export const TIFF_TAGS = {
+  ImageWidth: 0x0100,
+  ImageLength: 0x0101,
+  BitsPerSample: 0x0102,
+  Compression: 0x0103,
+  PhotometricInterpretation: 0x0106,
+  Orientation: 0x0112,
+  XResolution: 0x011a,
+  YResolution: 0x011b,
+  ResolutionUnit: 0x0128,
+  Artist: 0x013b,
+  ExtraSamples: 0x0152,
+  Copyright: 0x8298,
+  ExifIFDPointer: 0x8769,
+  GPSInfoIFDPointer: 0x8825,
+  MakerNote: 0x927c,
+  PixelXDimension: 0xa002,
+  PixelYDimension: 0xa003,
+  InteropIFDPointer: 0xa005,
+} as const;
+
+export type TiffValue = number[] | string | Uint8Array;
+
+export interface TiffEntry {
+  tag: number;
+  type: number;
+  count: number;
+  value: TiffValue;
+  /** Undecoded value bytes, in the byte order of the source */
+  raw: Uint8Array;
+  /** Absolute byte offset of the 12-byte directory entry */
+  entryOffset: number;
+}
+
+export interface TiffDirectory {
+  offset: number;
+  entries: Map<number, TiffEntry>;
+}
+
+export interface TiffData {
+  littleEndian: boolean;
+  ifd0: TiffDirectory | null;
+  ifd1: TiffDirectory | null;
+  exif: TiffDirectory | null;
+  gps: TiffDirectory | null;
+}
+
+export const TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8,
+};
+
+export const isTiffHeader = (bytes: Uint8Array, offset = 0): boolean => {
+  if (bytes.length < offset + 8) return false;
+  const a = bytes[offset], b = bytes[offset + 1];
+  if (a === 0x49 && b === 0x49) return bytes[offset + 2] === 0x2a && bytes[offset + 3] === 0x00;
+  if (a === 0x4d && b === 0x4d) return bytes[offset + 2] === 0x00 && bytes[offset + 3] === 0x2a;
+  return false;
+};
+
+const readValue = (view: DataView, type: number, count: number, offset: number, little: boolean): TiffValue => {
+  if (type === 2) {
+    // Strictly ASCII per spec, but plenty of software writes UTF-8
+    const text = new Uint8Array(view.buffer, view.byteOffset + offset, count);
+    const end = text.indexOf(0);
+    return new TextDecoder().decode(end < 0 ? text : text.subarray(0, end));
+  }
+  if (type === 7 || type === 1 || type === 6) {
+    const out = new Uint8Array(count);
+    for (let i = 0; i < count; i++) out[i] = view.getUint8(offset + i);
+    return type === 7 ? out : Array.from(out, (v) => (type === 6 ? (v << 24) >> 24 : v));
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const at = offset + i * TYPE_SIZES[type];
+    switch (type) {
+      case 3: values.push(view.getUint16(at, little)); break;
+      case 8: values.push(view.getInt16(at, little)); break;
+      case 4: values.push(view.getUint32(at, little)); break;
+      case 9: values.push(view.getInt32(at, little)); break;
+      case 5: {
+        const den = view.getUint32(at + 4, little);
+        values.push(den === 0 ? 0 : view.getUint32(at, little) / den);
+        break;
+      }
+      case 10: {
+        const den = view.getInt32(at + 4, little);
+        values.push(den === 0 ? 0 : view.getInt32(at, little) / den);
+        break;
+      }
+      case 11: values.push(view.getFloat32(at, little)); break;
+      case 12: values.push(view.getFloat64(at, little)); break;
+    }
+  }
+  return values;
+};
+
+const readDirectory = (view: DataView, start: number, offset: number, little: boolean): TiffDirectory | null => {
+  const at = start + offset;
+  if (offset <= 0 || at + 2 > view.byteLength) return null;
+
+  const count = view.getUint16(at, little);
+  const entries = new Map<number, TiffEntry>();
+  for (let i = 0; i < count; i++) {
+    const entryOffset = at + 2 + i * 12;
+    if (entryOffset + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entryOffset, little);
+    const type = view.getUint16(entryOffset + 2, little);
+    const valueCount = view.getUint32(entryOffset + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    const byteLength = size * valueCount;
+    const valueOffset = byteLength <= 4 ? entryOffset + 8 : start + view.getUint32(entryOffset + 8, little);
+    if (valueOffset + byteLength > view.byteLength) continue;
+
+    entries.set(tag, {
+      tag,
+      type,
+      count: valueCount,
+      value: readValue(view, type, valueCount, valueOffset, little),
+      raw: new Uint8Array(view.buffer, view.byteOffset + valueOffset, byteLength),
+      entryOffset,
+    });
+  }
+  return { offset, entries };
+};
+
+const nextDirectoryOffset = (view: DataView, start: number, dir: TiffDirectory, little: boolean): number => {
+  // Re-read the raw entry count: unknown entry types are skipped in `entries`.
+  const count = view.getUint16(start + dir.offset, little);
+  const linkAt = start + dir.offset + 2 + count * 12;
+  if (linkAt + 4 > view.byteLength) return 0;
+  return view.getUint32(linkAt, little);
+};
+
+/**
+ * Parses a TIFF structure (byte-order header followed by IFDs) starting at
+ * `start`. Offsets inside the structure are relative to `start`.
+ */
+export const parseTiff = (bytes: Uint8Array, start = 0): TiffData | null => {
+  if (!isTiffHeader(bytes, start)) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = bytes[start] === 0x49;
+  const ifd0 = readDirectory(view, start, view.getUint32(start + 4, littleEndian), littleEndian);
+  if (!ifd0) return null;
+
+  const ifd1Offset = nextDirectoryOffset(view, start, ifd0, littleEndian);
+  const ifd1 = ifd1Offset !== ifd0.offset ? readDirectory(view, start, ifd1Offset, littleEndian) : null;
+
+  const pointer = (tag: number) => {
+    const value = ifd0.entries.get(tag)?.value;
+    return Array.isArray(value) ? value[0] : 0;
+  };
+  const exif = readDirectory(view, start, pointer(TIFF_TAGS.ExifIFDPointer), littleEndian);
+  const gps = readDirectory(view, start, pointer(TIFF_TAGS.GPSInfoIFDPointer), littleEndian);
+
+  return { littleEndian, ifd0, ifd1, exif, gps };
+};
+
+export const getNumber = (dir: TiffDirectory | null, tag: number): number | undefined => {
+  const value = dir?.entries.get(tag)?.value;
+  return Array.isArray(value) && value.length > 0 ? value[0] : undefined;
+};
@@ -0,0 +1,80 @@
+import { asciiBytes, concat, riffChunk } from "./chunks";
+import { readRiffChunks } from "./containers";
+
+const VP8X_EXIF = 0x08;
+const VP8X_XMP = 0x04;
+const VP8X_ALPHA = 0x10;
+
+const uint24 = (bytes: Uint8Array, at: number) => bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16);
+
+/** Canvas size from the VP8X header, or from the VP8/VP8L bitstream of a simple file. */
+export const readWebpSize = (bytes: Uint8Array): { width: number; height: number } | null => {
+  for (const chunk of readRiffChunks(bytes)) {
+    const at = chunk.dataOffset;
+    if (chunk.fourCC === 'VP8X' && chunk.length >= 10) {
+      return { width: uint24(bytes, at + 4) + 1, height: uint24(bytes, at + 7) + 1 };
+    }
+    if (chunk.fourCC === 'VP8 ' && chunk.length >= 10) {
+      // 3-byte frame tag and 3-byte start code, then 14-bit width and height
+      return { width: (bytes[at + 6] | (bytes[at + 7] << 8)) & 0x3fff, height: (bytes[at + 8] | (bytes[at + 9] << 8)) & 0x3fff };
+    }
+    if (chunk.fourCC === 'VP8L' && chunk.length >= 5) {
+      // Signature byte, then 14 bits each of width - 1 and height - 1
+      const bits = (bytes[at + 1] | (bytes[at + 2] << 8) | (bytes[at + 3] << 16) | (bytes[at + 4] << 24)) >>> 0;
+      return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+    }
+  }
+  return null;
+};
+
+export interface WebpMetadataChunks {
+  /** TIFF block; undefined keeps the existing chunk, null removes it */
+  exif?: Uint8Array | null;
+  /** XMP packet; undefined keeps the existing chunk, null removes it */
+  xmp?: Uint8Array | null;
+}
+
+/**
+ * Rewrites a WebP file with its EXIF and/or XMP chunks replaced, promoting a
+ * simple (VP8/VP8L only) file to the extended VP8X layout when needed.
+ */
+export const setWebpMetadata = (bytes: Uint8Array, update: WebpMetadataChunks): Uint8Array => {
+  const chunks = readRiffChunks(bytes);
+  const body = (c: { dataOffset: number; length: number }) => bytes.subarray(c.dataOffset, c.dataOffset + c.length);
+  const existing = (fourCC: string) => {
+    const chunk = chunks.find((c) => c.fourCC === fourCC);
+    return chunk ? body(chunk) : null;
+  };
+  const exif = update.exif === undefined ? existing('EXIF') : update.exif;
+  const xmp = update.xmp === undefined ? existing('XMP ') : update.xmp;
+
+  let vp8x: Uint8Array;
+  const header = chunks.find((c) => c.fourCC === 'VP8X');
+  if (header) {
+    vp8x = body(header).slice();
+  } else {
+    const size = readWebpSize(bytes);
+    if (!size) return bytes;
+    vp8x = new Uint8Array(10);
+    const lossless = chunks.find((c) => c.fourCC === 'VP8L');
+    // VP8L header: signature byte, then 14+14 bits of size and the alpha_is_used bit
+    if (lossless && (bytes[lossless.dataOffset + 4] >> 4) & 1) vp8x[0] |= VP8X_ALPHA;
+    const w = size.width - 1, h = size.height - 1;
+    vp8x.set([w & 0xff, (w >> 8) & 0xff, (w >> 16) & 0xff, h & 0xff, (h >> 8) & 0xff, (h >> 16) & 0xff], 4);
+  }
+  vp8x[0] = (vp8x[0] & ~(VP8X_EXIF | VP8X_XMP)) | (exif ? VP8X_EXIF : 0) | (xmp ? VP8X_XMP : 0);
+
+  // Chunk order matters to strict readers: VP8X first, EXIF then XMP last
+  const parts: Uint8Array[] = [riffChunk('VP8X', vp8x)];
+  for (const chunk of chunks) {
+    if (!['VP8X', 'EXIF', 'XMP '].includes(chunk.fourCC)) parts.push(riffChunk(chunk.fourCC, body(chunk)));
+  }
+  if (exif) parts.push(riffChunk('EXIF', exif));
+  if (xmp) parts.push(riffChunk('XMP ', xmp));
+
+  const payload = concat(asciiBytes('WEBP'), ...parts);
+  const riff = new Uint8Array(8);
+  riff.set(asciiBytes('RIFF'));
+  new DataView(riff.buffer).setUint32(4, payload.length, true);
+  return concat(riff, payload);
+};
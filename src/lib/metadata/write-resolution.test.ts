@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { encodeBmp } from "@/lib/encoders/bmp";
+import { encodeTiff } from "@/lib/encoders/tiff";
+import { bareAvif, bareJpeg, barePng, bareWebp, testImage } from "@/test/images";
+import { readPngChunks } from "./containers";
+import { readResolution } from "./resolution";
+import { writeResolution } from "./write-resolution";
+
+const image = testImage(5, 4);
+
+const containers: [string, () => Uint8Array][] = [
+  ['JPEG', bareJpeg],
+  ['PNG', () => barePng(5, 4)],
+  ['WebP', () => bareWebp(5, 4)],
+  ['AVIF', () => bareAvif(new Uint8Array(32).fill(7))],
+  ['TIFF', () => encodeTiff(image, { compression: 'none', dpiX: 72, dpiY: 72 })],
+  ['BMP', () => encodeBmp(image, { dpiX: 72, dpiY: 72 })],
+];
+
+describe('writeResolution', () => {
+  it.each(containers)('declares the density in %s', (_, build) => {
+    const resolution = readResolution(writeResolution(build(), 300, 150));
+    expect(resolution.estimated).toBe(false);
+    expect(resolution.x).toBeCloseTo(300, 0);
+    expect(resolution.y).toBeCloseTo(150, 0);
+  });
+
+  it.each(containers)('replaces an earlier density in %s', (_, build) => {
+    const twice = writeResolution(writeResolution(build(), 96), 600);
+    expect(readResolution(twice)).toMatchObject({ x: expect.closeTo(600, 0), y: expect.closeTo(600, 0) });
+  });
+
+  it('keeps a single pHYs chunk in PNG', () => {
+    const png = writeResolution(writeResolution(barePng(5, 4), 96), 300);
+    expect(readPngChunks(png).filter((chunk) => chunk.type === 'pHYs')).toHaveLength(1);
+  });
+
+  it('writes JFIF and EXIF alike in JPEG', () => {
+    const jpeg = writeResolution(bareJpeg(), 240);
+    expect(readResolution(jpeg).source).toBe('jfif');
+    // Without JFIF the EXIF copy is what readers find
+    const app0End = 2 + 18;
+    const exifOnly = new Uint8Array([...jpeg.subarray(0, 2), ...jpeg.subarray(app0End)]);
+    expect(readResolution(exifOnly)).toMatchObject({ x: 240, y: 240, source: 'exif' });
+  });
+
+  it('leaves unknown data alone', () => {
+    const bytes = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14]);
+    expect(writeResolution(bytes, 300)).toBe(bytes);
+  });
+});
@@ -0,0 +1,154 @@
+import { EXIF_HEADER, ascii, concat, jpegSegment, pngChunk } from "./chunks";
+import { findExif, isBmp, isIsobmff, isJpeg, isPng, isRiffWebp, readJpegSegments, readPngChunks } from "./containers";
+import { setIsobmffMetadata } from "./isobmff";
+import { TIFF_TAGS, isTiffHeader, parseTiff } from "./tiff";
+import { buildTiff, rationalEntry, shortEntry, toRational } from "./tiff-writer";
+import { setWebpMetadata } from "./webp";
+
+const INCHES_PER_METER = 39.3700787;
+
+const jfifDensity = (dpi: number) => Math.min(0xffff, Math.max(1, Math.round(dpi)));
+
+const buildJfifSegment = (x: number, y: number): Uint8Array => {
+  const seg = new Uint8Array(18);
+  const view = new DataView(seg.buffer);
+  view.setUint16(0, 0xffe0);
+  view.setUint16(2, 16);
+  seg.set([0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01], 4);
+  seg[11] = 1; // density in dots per inch
+  view.setUint16(12, jfifDensity(x));
+  view.setUint16(14, jfifDensity(y));
+  return seg;
+};
+
+/** A TIFF block holding only XResolution, YResolution and ResolutionUnit. */
+const buildResolutionTiff = (x: number, y: number): Uint8Array =>
+  buildTiff({
+    littleEndian: false,
+    ifd0: [
+      rationalEntry(TIFF_TAGS.XResolution, x, false),
+      rationalEntry(TIFF_TAGS.YResolution, y, false),
+      shortEntry(TIFF_TAGS.ResolutionUnit, 2, false),
+    ],
+    exif: [],
+    gps: [],
+  });
+
+/**
+ * Rewrites resolution tags of an existing EXIF block in place. Returns false
+ * when the block lacks the tags, in which case the caller adds its own.
+ */
+const patchTiffResolution = (bytes: Uint8Array, start: number, x: number, y: number): boolean => {
+  const tiff = parseTiff(bytes, start);
+  const xEntry = tiff?.ifd0?.entries.get(TIFF_TAGS.XResolution);
+  const yEntry = tiff?.ifd0?.entries.get(TIFF_TAGS.YResolution);
+  if (!tiff || !xEntry || !yEntry || xEntry.type !== 5 || yEntry.type !== 5) return false;
+
+  const little = tiff.littleEndian;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const writeRational = (entryOffset: number, value: number) => {
+    const at = start + view.getUint32(entryOffset + 8, little);
+    const [num, den] = toRational(value);
+    view.setUint32(at, num, little);
+    view.setUint32(at + 4, den, little);
+  };
+  writeRational(xEntry.entryOffset, x);
+  writeRational(yEntry.entryOffset, y);
+
+  const unit = tiff.ifd0.entries.get(TIFF_TAGS.ResolutionUnit);
+  if (unit && unit.type === 3) view.setUint16(unit.entryOffset + 8, 2, little);
+  return true;
+};
+
+const writeJpegResolution = (input: Uint8Array, x: number, y: number): Uint8Array => {
+  const bytes = input.slice();
+  const segments = readJpegSegments(bytes);
+
+  let jfifEnd = 2;
+  const app0 = segments.find(
+    (seg) => seg.marker === 0xe0 && seg.length >= 12 && ascii(bytes, seg.dataOffset, 5) === 'JFIF\0',
+  );
+  let out = bytes;
+  if (app0) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    bytes[app0.dataOffset + 7] = 1;
+    view.setUint16(app0.dataOffset + 8, jfifDensity(x));
+    view.setUint16(app0.dataOffset + 10, jfifDensity(y));
+    jfifEnd = app0.dataOffset + app0.length;
+  } else {
+    out = concat(bytes.subarray(0, 2), buildJfifSegment(x, y), bytes.subarray(2));
+    jfifEnd = 20;
+  }
+
+  const exif = findExif(out);
+  if (exif !== null) {
+    // An EXIF block without resolution tags is left alone; JFIF already carries the density
+    patchTiffResolution(out, exif, x, y);
+    return out;
+  }
+
+  const app1 = jpegSegment(0xe1, concat(EXIF_HEADER, buildResolutionTiff(x, y)));
+  return concat(out.subarray(0, jfifEnd), app1, out.subarray(jfifEnd));
+};
+
+const writePngResolution = (bytes: Uint8Array, x: number, y: number): Uint8Array => {
+  const chunks = readPngChunks(bytes);
+  const ihdr = chunks.find((chunk) => chunk.type === 'IHDR');
+  if (!ihdr) return bytes;
+
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, Math.round(x * INCHES_PER_METER));
+  view.setUint32(4, Math.round(y * INCHES_PER_METER));
+  data[8] = 1; // pixels per metre
+
+  // Drop any existing pHYs so there is exactly one, placed right after IHDR
+  const parts: Uint8Array[] = [bytes.subarray(0, ihdr.offset + 12 + ihdr.length), pngChunk('pHYs', data)];
+  let at = ihdr.offset + 12 + ihdr.length;
+  for (const chunk of chunks) {
+    if (chunk.type !== 'pHYs') continue;
+    parts.push(bytes.subarray(at, chunk.offset));
+    at = chunk.offset + 12 + chunk.length;
+  }
+  parts.push(bytes.subarray(at));
+  return concat(...parts);
+};
+
+// WebP and AVIF declare density in EXIF alone. As with JPEG, an existing
+// block without resolution tags is left alone rather than replaced
+const writeExifResolution = (bytes: Uint8Array, x: number, y: number, addExif: (exif: Uint8Array) => Uint8Array): Uint8Array => {
+  const exif = findExif(bytes);
+  if (exif !== null) {
+    const out = bytes.slice();
+    return patchTiffResolution(out, exif, x, y) ? out : bytes;
+  }
+  return addExif(buildResolutionTiff(x, y));
+};
+
+const writeBmpResolution = (bytes: Uint8Array, x: number, y: number): Uint8Array => {
+  const out = bytes.slice();
+  const view = new DataView(out.buffer);
+  // biXPelsPerMeter / biYPelsPerMeter in the info header
+  view.setInt32(38, Math.round(x * INCHES_PER_METER), true);
+  view.setInt32(42, Math.round(y * INCHES_PER_METER), true);
+  return out;
+};
+
+/**
+ * Declares the given density (pixels per inch) in an encoded image. JPEG gets
+ * JFIF APP0 density plus EXIF resolution tags, PNG gets a pHYs chunk, WebP an
+ * EXIF chunk, AVIF an EXIF item, TIFF its own resolution tags and BMP its
+ * pixels-per-metre fields. Other formats are returned unchanged.
+ */
+export const writeResolution = (bytes: Uint8Array, x: number, y: number = x): Uint8Array => {
+  if (isJpeg(bytes)) return writeJpegResolution(bytes, x, y);
+  if (isPng(bytes)) return writePngResolution(bytes, x, y);
+  if (isRiffWebp(bytes)) return writeExifResolution(bytes, x, y, (exif) => setWebpMetadata(bytes, { exif }));
+  if (isIsobmff(bytes)) return writeExifResolution(bytes, x, y, (exif) => setIsobmffMetadata(bytes, { exif }));
+  if (isBmp(bytes)) return writeBmpResolution(bytes, x, y);
+  if (isTiffHeader(bytes)) {
+    const out = bytes.slice();
+    return patchTiffResolution(out, 0, x, y) ? out : bytes;
+  }
+  return bytes;
+};
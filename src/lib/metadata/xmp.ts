@@ -0,0 +1,160 @@
+import { ascii } from "./chunks";
+import { isJpeg, isPng, isRiffWebp, readJpegSegments, readPngChunks, readRiffChunks } from "./containers";
+import type { MetadataEdits, MetadataPolicy } from "./policy";
+
+export const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+export const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+
+const RDF_NS = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const TIFF_NS = 'http://ns.adobe.com/tiff/1.0/';
+
+export interface XmpProperty {
+  name: string;
+  value: string;
+}
+
+const utf8 = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+/** Extracts the raw XMP packet from a JPEG, PNG or WebP file. */
+export const readXmp = (bytes: Uint8Array): string | null => {
+  if (isJpeg(bytes)) {
+    const seg = readJpegSegments(bytes).find(
+      (s) => s.marker === 0xe1 && ascii(bytes, s.dataOffset, XMP_JPEG_HEADER.length) === XMP_JPEG_HEADER,
+    );
+    return seg ? utf8(bytes.subarray(seg.dataOffset + XMP_JPEG_HEADER.length, seg.dataOffset + seg.length)) : null;
+  }
+  if (isPng(bytes)) {
+    for (const chunk of readPngChunks(bytes)) {
+      if (chunk.type !== 'iTXt' || ascii(bytes, chunk.dataOffset, XMP_PNG_KEYWORD.length + 1) !== `${XMP_PNG_KEYWORD}\0`) continue;
+      let at = chunk.dataOffset + XMP_PNG_KEYWORD.length + 1;
+      // Compressed iTXt would need inflate; Adobe never writes XMP that way
+      if (bytes[at] !== 0) return null;
+      at += 2;
+      // Skip language tag and translated keyword
+      for (let i = 0; i < 2; i++) {
+        while (at < chunk.dataOffset + chunk.length && bytes[at] !== 0) at++;
+        at++;
+      }
+      return utf8(bytes.subarray(at, chunk.dataOffset + chunk.length));
+    }
+    return null;
+  }
+  if (isRiffWebp(bytes)) {
+    const chunk = readRiffChunks(bytes).find((c) => c.fourCC === 'XMP ');
+    return chunk ? utf8(bytes.subarray(chunk.dataOffset, chunk.dataOffset + chunk.length)) : null;
+  }
+  return null;
+};
+
+const parse = (xml: string): Document | null => {
+  const doc = new DOMParser().parseFromString(xml.replace(/\0+$/, ''), 'application/xml');
+  return doc.getElementsByTagName('parsererror').length ? null : doc;
+};
+
+const descriptions = (doc: Document) => Array.from(doc.getElementsByTagNameNS(RDF_NS, 'Description'));
+
+const elementText = (el: Element): string => {
+  const items = Array.from(el.getElementsByTagNameNS(RDF_NS, 'li'));
+  return items.length ? items.map((li) => li.textContent?.trim() ?? '').join(', ') : el.textContent?.trim() ?? '';
+};
+
+/** Flattens the packet into `prefix:name` / value pairs for display. */
+export const listXmpProperties = (xml: string): XmpProperty[] => {
+  const doc = parse(xml);
+  if (!doc) return [];
+
+  const props: XmpProperty[] = [];
+  for (const desc of descriptions(doc)) {
+    // Nested descriptions (structs) are reported through their parent element
+    if (desc.parentElement?.namespaceURI !== RDF_NS || desc.parentElement.localName !== 'RDF') continue;
+    for (const attr of Array.from(desc.attributes)) {
+      if (attr.prefix === 'xmlns' || attr.name === 'xmlns' || attr.namespaceURI === RDF_NS) continue;
+      props.push({ name: attr.name, value: attr.value });
+    }
+    for (const child of Array.from(desc.children)) {
+      props.push({ name: child.tagName, value: elementText(child) });
+    }
+  }
+  return props;
+};
+
+const isGpsName = (localName: string) => localName.startsWith('GPS');
+
+const findValue = (doc: Document, localName: string): string | undefined => {
+  const el = doc.getElementsByTagNameNS(DC_NS, localName)[0];
+  if (el) return elementText(el);
+  for (const desc of descriptions(doc)) {
+    const attr = desc.getAttributeNS(DC_NS, localName);
+    if (attr) return attr;
+  }
+  return undefined;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const ownershipXml = (author: string | undefined, copyright: string | undefined) =>
+  (author ? `<dc:creator><rdf:Seq><rdf:li>${escapeXml(author)}</rdf:li></rdf:Seq></dc:creator>` : '') +
+  (copyright ? `<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(copyright)}</rdf:li></rdf:Alt></dc:rights>` : '');
+
+export const buildXmpPacket = (body: string) =>
+  '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n' +
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+  `<rdf:Description rdf:about="" xmlns:dc="${DC_NS}">${body}</rdf:Description>` +
+  '</rdf:RDF></x:xmpmeta>\n<?xpacket end="w"?>';
+
+const replaceOwnership = (doc: Document, localName: 'creator' | 'rights', value: string) => {
+  for (const el of Array.from(doc.getElementsByTagNameNS(DC_NS, localName))) el.remove();
+  for (const desc of descriptions(doc)) desc.removeAttributeNS(DC_NS, localName);
+  const target = descriptions(doc)[0];
+  if (!target || !value) return;
+
+  const fragment = parse(buildXmpPacket(ownershipXml(
+    localName === 'creator' ? value : undefined,
+    localName === 'rights' ? value : undefined,
+  )));
+  const node = fragment?.getElementsByTagNameNS(DC_NS, localName)[0];
+  if (node) target.appendChild(doc.importNode(node, true));
+};
+
+/**
+ * Applies an export policy and ownership edits to an XMP packet. Returns
+ * null when nothing should be written.
+ */
+export const filterXmp = (xml: string, policy: MetadataPolicy, edits: MetadataEdits): string | null => {
+  if (policy === 'strip-all') return null;
+
+  const doc = parse(xml);
+  if (!doc) return null;
+
+  if (policy === 'copyright-only') {
+    const author = edits.author ?? findValue(doc, 'creator');
+    const copyright = edits.copyright ?? findValue(doc, 'rights');
+    return author || copyright ? buildXmpPacket(ownershipXml(author, copyright)) : null;
+  }
+
+  if (policy === 'strip-gps') {
+    for (const desc of descriptions(doc)) {
+      for (const attr of Array.from(desc.attributes)) {
+        if (isGpsName(attr.localName)) desc.removeAttributeNode(attr);
+      }
+      for (const child of Array.from(desc.children)) {
+        if (isGpsName(child.localName)) child.remove();
+      }
+    }
+  }
+
+  // The exported pixels are already upright; a stale tiff:Orientation would rotate them again
+  for (const el of Array.from(doc.getElementsByTagNameNS(TIFF_NS, 'Orientation'))) el.remove();
+  for (const desc of descriptions(doc)) desc.removeAttributeNS(TIFF_NS, 'Orientation');
+
+  if (edits.author !== undefined) replaceOwnership(doc, 'creator', edits.author);
+  if (edits.copyright !== undefined) replaceOwnership(doc, 'rights', edits.copyright);
+  return new XMLSerializer().serializeToString(doc);
+};
+
+export const readXmpOwnership = (xml: string): { author?: string; copyright?: string } => {
+  const doc = parse(xml);
+  return doc ? { author: findValue(doc, 'creator'), copyright: findValue(doc, 'rights') } : {};
+};
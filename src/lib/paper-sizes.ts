@@ -0,0 +1,69 @@
+import { CM_PER_INCH } from "@/lib/print-size";
+
+export type PaperUnit = 'mm' | 'in';
+
+export interface PaperSize {
+  id: string;
+  label: string;
+  group: 'ISO' | 'US' | 'Photo' | 'Poster';
+  /** Short side */
+  width: number;
+  /** Long side */
+  height: number;
+  unit: PaperUnit;
+}
+
+export const PAPER_SIZES: PaperSize[] = [
+  { id: 'a0', label: 'A0', group: 'ISO', width: 841, height: 1189, unit: 'mm' },
+  { id: 'a1', label: 'A1', group: 'ISO', width: 594, height: 841, unit: 'mm' },
+  { id: 'a2', label: 'A2', group: 'ISO', width: 420, height: 594, unit: 'mm' },
+  { id: 'a3', label: 'A3', group: 'ISO', width: 297, height: 420, unit: 'mm' },
+  { id: 'a4', label: 'A4', group: 'ISO', width: 210, height: 297, unit: 'mm' },
+  { id: 'a5', label: 'A5', group: 'ISO', width: 148, height: 210, unit: 'mm' },
+  { id: 'a6', label: 'A6', group: 'ISO', width: 105, height: 148, unit: 'mm' },
+  { id: 'letter', label: 'US Letter', group: 'US', width: 8.5, height: 11, unit: 'in' },
+  { id: 'legal', label: 'US Legal', group: 'US', width: 8.5, height: 14, unit: 'in' },
+  { id: 'tabloid', label: 'Tabloid', group: 'US', width: 11, height: 17, unit: 'in' },
+  { id: '4x6', label: '4 × 6 in', group: 'Photo', width: 4, height: 6, unit: 'in' },
+  { id: '5x7', label: '5 × 7 in', group: 'Photo', width: 5, height: 7, unit: 'in' },
+  { id: '8x10', label: '8 × 10 in', group: 'Photo', width: 8, height: 10, unit: 'in' },
+  { id: '11x14', label: '11 × 14 in', group: 'Photo', width: 11, height: 14, unit: 'in' },
+  { id: '16x20', label: '16 × 20 in', group: 'Poster', width: 16, height: 20, unit: 'in' },
+  { id: '18x24', label: '18 × 24 in', group: 'Poster', width: 18, height: 24, unit: 'in' },
+  { id: '24x36', label: '24 × 36 in', group: 'Poster', width: 24, height: 36, unit: 'in' },
+  { id: '27x40', label: '27 × 40 in (movie)', group: 'Poster', width: 27, height: 40, unit: 'in' },
+];
+
+// Below this the print visibly softens; below the minimum it looks pixelated
+export const RECOMMENDED_PRINT_DPI = 300;
+export const MINIMUM_PRINT_DPI = 150;
+
+export const paperToInches = (value: number, unit: PaperUnit) => (unit === 'mm' ? value / 10 / CM_PER_INCH : value);
+
+export interface PaperFit {
+  /** Paper dimensions in inches, rotated to match the image orientation */
+  paperWidthIn: number;
+  paperHeightIn: number;
+  /** Printed image size when scaled to fit the paper without cropping */
+  printWidthIn: number;
+  printHeightIn: number;
+  effectiveDpi: number;
+}
+
+/** Fits an image onto a sheet, turning the sheet to match the image orientation. */
+export const fitToPaper = (width: number, height: number, paperWidthIn: number, paperHeightIn: number): PaperFit => {
+  const shortSide = Math.min(paperWidthIn, paperHeightIn);
+  const longSide = Math.max(paperWidthIn, paperHeightIn);
+  const landscape = width > height;
+  const pw = landscape ? longSide : shortSide;
+  const ph = landscape ? shortSide : longSide;
+
+  const effectiveDpi = Math.min(width / pw, height / ph);
+  return {
+    paperWidthIn: pw,
+    paperHeightIn: ph,
+    printWidthIn: width / effectiveDpi,
+    printHeightIn: height / effectiveDpi,
+    effectiveDpi,
+  };
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { fromInches, physicalSize, planResize, toInches } from "./print-size";
+
+describe('planResize', () => {
+  it('only changes the declared density for metadata', () => {
+    expect(planResize('metadata', 3000, 2000, { x: 72, y: 72 }, 300, 10)).toEqual({ width: 3000, height: 2000, dpiX: 300, dpiY: 300 });
+  });
+
+  it('keeps the print size when resampling to a new density', () => {
+    // 10 × 6.67 in at 300 DPI, taken to 150 DPI
+    const plan = planResize('resample', 3000, 2000, { x: 300, y: 300 }, 150, 10);
+    expect(plan).toEqual({ width: 1500, height: 1000, dpiX: 150, dpiY: 150 });
+  });
+
+  it('resamples to a chosen print width, keeping the aspect ratio', () => {
+    const plan = planResize('resample', 1200, 800, { x: 72, y: 72 }, 300, 8);
+    expect(plan).toEqual({ width: 2400, height: 1600, dpiX: 300, dpiY: 300 });
+  });
+
+  it('keeps the aspect ratio of non-square densities when resampling', () => {
+    // 10 × 10 in: the height in pixels is half the width at half the vertical density
+    const plan = planResize('resample', 1000, 500, { x: 100, y: 50 }, 200, 10);
+    expect(plan).toMatchObject({ width: 2000, height: 2000 });
+  });
+
+  it('derives the density from the print width for print-size', () => {
+    const plan = planResize('print-size', 3000, 2000, { x: 72, y: 144 }, 300, 12);
+    expect(plan).toEqual({ width: 3000, height: 2000, dpiX: 250, dpiY: 500 });
+  });
+
+  it('never plans an empty image', () => {
+    expect(planResize('resample', 10, 1, { x: 300, y: 300 }, 1, 0.01)).toMatchObject({ width: 1, height: 1 });
+  });
+});
+
+describe('physical sizes', () => {
+  it('converts pixels to inches and centimetres', () => {
+    expect(physicalSize(600, 300, { x: 300, y: 150 })).toEqual({ widthIn: 2, heightIn: 2, widthCm: 5.08, heightCm: 5.08 });
+  });
+
+  it('round-trips lengths through centimetres', () => {
+    expect(toInches(fromInches(4.25, 'cm'), 'cm')).toBeCloseTo(4.25);
+    expect(toInches(2.54, 'cm')).toBeCloseTo(1);
+  });
+});
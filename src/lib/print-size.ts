@@ -0,0 +1,83 @@
+import type { Resolution } from "@/lib/metadata/resolution";
+
+export const CM_PER_INCH = 2.54;
+
+export type LengthUnit = 'in' | 'cm';
+
+/**
+ * How a Target DPI change is applied:
+ * - `metadata`: keep the pixels, only rewrite the declared density
+ * - `resample`: keep the physical size, change the pixel count to match the new density
+ * - `print-size`: keep the pixels, pick a print width and derive the density from it
+ */
+export type ResizeMode = 'metadata' | 'resample' | 'print-size';
+
+export const RESIZE_MODES: { value: ResizeMode; label: string; description: string }[] = [
+  { value: 'metadata', label: 'Change DPI tag only', description: 'Same pixels, new density in the file header' },
+  { value: 'resample', label: 'Resample to DPI', description: 'Same print size, pixels added or removed' },
+  { value: 'print-size', label: 'Set print size', description: 'Same pixels, DPI follows the chosen width' },
+];
+
+export interface PhysicalSize {
+  widthIn: number;
+  heightIn: number;
+  widthCm: number;
+  heightCm: number;
+}
+
+export interface ResizePlan {
+  width: number;
+  height: number;
+  dpiX: number;
+  dpiY: number;
+}
+
+export const toInches = (value: number, unit: LengthUnit) => (unit === 'cm' ? value / CM_PER_INCH : value);
+
+export const fromInches = (inches: number, unit: LengthUnit) => (unit === 'cm' ? inches * CM_PER_INCH : inches);
+
+export const physicalSize = (width: number, height: number, dpi: Pick<Resolution, 'x' | 'y'>): PhysicalSize => {
+  const widthIn = width / dpi.x;
+  const heightIn = height / dpi.y;
+  return { widthIn, heightIn, widthCm: widthIn * CM_PER_INCH, heightCm: heightIn * CM_PER_INCH };
+};
+
+export const formatPhysicalSize = (size: PhysicalSize, unit: LengthUnit): string =>
+  unit === 'in'
+    ? `${size.widthIn.toFixed(2)} × ${size.heightIn.toFixed(2)} in`
+    : `${size.widthCm.toFixed(1)} × ${size.heightCm.toFixed(1)} cm`;
+
+/**
+ * Works out output pixel dimensions and declared density for a resize mode.
+ * `printWidthIn` is the desired print width; pass the current physical width
+ * to keep the print size unchanged when resampling.
+ */
+export const planResize = (
+  mode: ResizeMode,
+  width: number,
+  height: number,
+  dpi: Pick<Resolution, 'x' | 'y'>,
+  targetDpi: number,
+  printWidthIn: number,
+): ResizePlan => {
+  switch (mode) {
+    case 'metadata':
+      return { width, height, dpiX: targetDpi, dpiY: targetDpi };
+    case 'resample': {
+      const { widthIn, heightIn } = physicalSize(width, height, dpi);
+      const printHeightIn = heightIn * (printWidthIn / widthIn);
+      return {
+        width: Math.max(1, Math.round(printWidthIn * targetDpi)),
+        height: Math.max(1, Math.round(printHeightIn * targetDpi)),
+        dpiX: targetDpi,
+        dpiY: targetDpi,
+      };
+    }
+    case 'print-size': {
+      // Keep the pixel aspect of the source so non-square densities stay proportional
+      const dpiX = width / printWidthIn;
+      const dpiY = dpiX * (dpi.y / dpi.x);
+      return { width, height, dpiX, dpiY };
+    }
+  }
+};
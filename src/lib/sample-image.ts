@@ -0,0 +1,39 @@
+/**
+ * The average sRGB colour around a click on an `<img>` shown with
+ * `object-fit: contain`, in the image's own pixels. Returns null when the
+ * click falls outside the picture.
+ */
+export const sampleDisplayedImage = (
+  img: HTMLImageElement,
+  clientX: number,
+  clientY: number,
+  radius = 2,
+): [number, number, number] | null => {
+  const rect = img.getBoundingClientRect();
+  // Contain scales the image to fit the box and centres it, leaving bars on two sides
+  const scale = Math.min(rect.width / img.naturalWidth, rect.height / img.naturalHeight);
+  const x = Math.floor((clientX - rect.left - (rect.width - img.naturalWidth * scale) / 2) / scale);
+  const y = Math.floor((clientY - rect.top - (rect.height - img.naturalHeight * scale) / 2) / scale);
+  if (x < 0 || y < 0 || x >= img.naturalWidth || y >= img.naturalHeight) return null;
+
+  const size = radius * 2 + 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(img, x - radius, y - radius, size, size, 0, 0, size, size);
+  const { data } = ctx.getImageData(0, 0, size, size);
+
+  // Pixels past the image edge come back transparent and are left out
+  const sum = [0, 0, 0];
+  let count = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    sum[0] += data[i];
+    sum[1] += data[i + 1];
+    sum[2] += data[i + 2];
+    count++;
+  }
+  return count ? [sum[0] / count, sum[1] / count, sum[2] / count] : null;
+};
@@ -0,0 +1,70 @@
+import type { SourceImage } from "@/lib/enhance";
+import { embedMetadata } from "@/lib/metadata/embed";
+import { readMetadata, type ImageMetadata } from "@/lib/metadata/extract";
+import { detectFormat } from "@/lib/metadata/format";
+import { clearOrientation, readOrientation } from "@/lib/metadata/orientation";
+import type { MetadataEdits, MetadataPolicy } from "@/lib/metadata/policy";
+import { readResolution, type Resolution } from "@/lib/metadata/resolution";
+import { writeResolution } from "@/lib/metadata/write-resolution";
+
+// Metadata parsing needs DOMParser for XMP, so reading and re-embedding it
+// stays on the main thread; only pixels go to the enhance worker
+
+export interface LoadedFile {
+  source: SourceImage;
+  metadata: ImageMetadata;
+  /** The untouched file, for display */
+  bytes: Uint8Array;
+}
+
+/** Rejects files whose header is not an image we know, unless the browser vouches for them. */
+export const readSourceFile = async (file: File): Promise<LoadedFile> => {
+  const buffer = await file.arrayBuffer().catch(() => {
+    throw new Error('Could not read the file');
+  });
+  const bytes = new Uint8Array(buffer);
+  const format = detectFormat(bytes);
+  // Trust the file's header over its extension, but fall back to the
+  // declared type for formats we do not sniff
+  if (format.format === 'unknown' && !file.type.startsWith('image/')) {
+    throw new Error(`${file.name} is not an image file`);
+  }
+
+  return {
+    source: {
+      bytes: clearOrientation(bytes),
+      mimeType: file.type || 'application/octet-stream',
+      fileSize: file.size,
+      dpi: readResolution(bytes),
+      orientation: readOrientation(bytes),
+      format,
+    },
+    metadata: readMetadata(bytes),
+    bytes,
+  };
+};
+
+export interface DownloadOptions {
+  policy: MetadataPolicy;
+  edits: MetadataEdits;
+  width: number;
+  height: number;
+  dpi: Pick<Resolution, 'x' | 'y'>;
+}
+
+/**
+ * Carries the original metadata over according to the chosen policy. The
+ * density is re-declared afterwards in case the policy removed EXIF.
+ */
+export const withMetadata = (bytes: Uint8Array, metadata: ImageMetadata, options: DownloadOptions): Uint8Array => {
+  const { dpi } = options;
+  const embedded = embedMetadata(bytes, metadata, {
+    policy: options.policy,
+    edits: options.edits,
+    width: options.width,
+    height: options.height,
+    dpiX: dpi.x,
+    dpiY: dpi.y,
+  });
+  return writeResolution(embedded, dpi.x, dpi.y);
+};
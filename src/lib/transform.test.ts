@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TRANSFORM_SETTINGS, transformMatrix, transformedResolution, transformedSize, type TransformSettings } from "./transform";
+
+const settings = (patch: Partial<TransformSettings>): TransformSettings => ({ ...DEFAULT_TRANSFORM_SETTINGS, ...patch });
+
+const corners = (width: number, height: number, transform: TransformSettings) => {
+  const [a, b, c, d, e, f] = transformMatrix(width, height, transform);
+  return [[0, 0], [width, 0], [0, height], [width, height]].map(([x, y]) => [a * x + c * y + e, b * x + d * y + f]);
+};
+
+describe('transformedSize', () => {
+  it('swaps the sides for odd quarter turns', () => {
+    expect(transformedSize(600, 400, settings({ rotate: 1 }))).toEqual({ width: 400, height: 600 });
+    expect(transformedSize(600, 400, settings({ rotate: 2 }))).toEqual({ width: 600, height: 400 });
+  });
+
+  it('trims a straightened picture only with auto-crop', () => {
+    expect(transformedSize(600, 400, settings({ straighten: 10, autoCrop: false }))).toEqual({ width: 600, height: 400 });
+    const trimmed = transformedSize(600, 400, settings({ straighten: 10 }));
+    expect(trimmed.width).toBeLessThan(600);
+    expect(trimmed.width / trimmed.height).toBeCloseTo(1.5, 2);
+  });
+});
+
+describe('transformMatrix', () => {
+  it.each([0, 1, 2, 3] as const)('maps the corners exactly onto the output for %i quarter turns', (rotate) => {
+    for (const [flipHorizontal, flipVertical] of [[false, false], [true, false], [false, true]]) {
+      const transform = settings({ rotate, flipHorizontal, flipVertical });
+      const output = transformedSize(600, 400, transform);
+      const xs = corners(600, 400, transform).map(([x]) => x).sort((p, q) => p - q);
+      const ys = corners(600, 400, transform).map(([, y]) => y).sort((p, q) => p - q);
+      expect(xs).toEqual([0, 0, output.width, output.width]);
+      expect(ys).toEqual([0, 0, output.height, output.height]);
+    }
+  });
+
+  it('turns clockwise', () => {
+    // The top-left corner ends up top-right after one clockwise turn
+    expect(corners(600, 400, settings({ rotate: 1 }))[0]).toEqual([400, 0]);
+  });
+
+  it('covers the whole output when straightened with auto-crop', () => {
+    const transform = settings({ straighten: -12, rotate: 1 });
+    const output = transformedSize(600, 400, transform);
+    const [a, b, c, d, e, f] = transformMatrix(600, 400, transform);
+    const det = a * d - b * c;
+    // Every output corner maps back inside the source
+    for (const [x, y] of [[0, 0], [output.width, 0], [0, output.height], [output.width, output.height]]) {
+      const sx = (d * (x - e) - c * (y - f)) / det;
+      const sy = (a * (y - f) - b * (x - e)) / det;
+      expect(sx).toBeGreaterThanOrEqual(-0.5);
+      expect(sx).toBeLessThanOrEqual(600.5);
+      expect(sy).toBeGreaterThanOrEqual(-0.5);
+      expect(sy).toBeLessThanOrEqual(400.5);
+    }
+  });
+});
+
+describe('transformedResolution', () => {
+  it('swaps the axes for odd quarter turns only', () => {
+    const dpi = { x: 300, y: 150, estimated: false };
+    expect(transformedResolution(dpi, settings({ rotate: 1 }))).toEqual({ x: 150, y: 300, estimated: false });
+    expect(transformedResolution(dpi, settings({ rotate: 2, flipHorizontal: true }))).toBe(dpi);
+  });
+});
@@ -0,0 +1,115 @@
+export type QuarterTurns = 0 | 1 | 2 | 3;
+
+/**
+ * Geometry changes, applied after the crop in this order: quarter turns,
+ * flips, then straightening, so flips and the angle act on the picture as
+ * it is seen.
+ */
+export interface TransformSettings {
+  /** Clockwise quarter turns */
+  rotate: QuarterTurns;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  /** Degrees clockwise, within ±STRAIGHTEN_LIMIT */
+  straighten: number;
+  /** Trims a straightened picture to the largest rectangle of its shape with no empty corners */
+  autoCrop: boolean;
+}
+
+export const DEFAULT_TRANSFORM_SETTINGS: TransformSettings = {
+  rotate: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  straighten: 0,
+  autoCrop: true,
+};
+
+export const STRAIGHTEN_LIMIT = 45;
+
+type Matrix = [number, number, number, number, number, number];
+
+export const transformIsIdentity = (transform: TransformSettings) =>
+  transform.rotate === 0 && !transform.flipHorizontal && !transform.flipVertical && transform.straighten === 0;
+
+// Largest scale of a width × height rectangle that fits, centred, inside itself turned by `degrees`
+const autoCropScale = (width: number, height: number, degrees: number) => {
+  const angle = (Math.abs(degrees) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return Math.min(width / (width * cos + height * sin), height / (width * sin + height * cos));
+};
+
+/** Size of a `width` × `height` picture after `transform`. */
+export const transformedSize = (width: number, height: number, transform: TransformSettings) => {
+  const [turnedWidth, turnedHeight] = transform.rotate % 2 ? [height, width] : [width, height];
+  if (!transform.autoCrop || transform.straighten === 0) return { width: turnedWidth, height: turnedHeight };
+  const scale = autoCropScale(turnedWidth, turnedHeight, transform.straighten);
+  return {
+    width: Math.max(1, Math.round(turnedWidth * scale)),
+    height: Math.max(1, Math.round(turnedHeight * scale)),
+  };
+};
+
+/** A density after `transform`: quarter turns swap its axes. */
+export const transformedResolution = <T extends { x: number; y: number }>(dpi: T, transform: TransformSettings): T =>
+  transform.rotate % 2 ? { ...dpi, x: dpi.y, y: dpi.x } : dpi;
+
+const multiply = ([a1, b1, c1, d1]: number[], [a2, b2, c2, d2]: number[]) => [
+  a1 * a2 + c1 * b2,
+  b1 * a2 + d1 * b2,
+  a1 * c2 + c1 * d2,
+  b1 * c2 + d1 * d2,
+];
+
+/**
+ * Canvas matrix taking a `width` × `height` picture onto a canvas of its
+ * transformed size, turning it about its centre.
+ */
+export const transformMatrix = (width: number, height: number, transform: TransformSettings): Matrix => {
+  const quarter = (transform.rotate * Math.PI) / 2;
+  const angle = (transform.straighten * Math.PI) / 180;
+  // Quarter turns are rounded so they stay exact
+  const turn = [Math.round(Math.cos(quarter)), Math.round(Math.sin(quarter)), -Math.round(Math.sin(quarter)), Math.round(Math.cos(quarter))];
+  const flip = [transform.flipHorizontal ? -1 : 1, 0, 0, transform.flipVertical ? -1 : 1];
+  const tilt = [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle)];
+  const [a, b, c, d] = multiply(tilt, multiply(flip, turn));
+  const output = transformedSize(width, height, transform);
+  return [
+    a,
+    b,
+    c,
+    d,
+    output.width / 2 - (a * width + c * height) / 2,
+    output.height / 2 - (b * width + d * height) / 2,
+  ];
+};
+
+/** The same turn as a CSS transform, for an element centred on the picture. */
+export const cssTransform = (transform: TransformSettings) =>
+  `rotate(${transform.straighten}deg) scale(${transform.flipHorizontal ? -1 : 1}, ${transform.flipVertical ? -1 : 1}) rotate(${transform.rotate * 90}deg)`;
+
+/**
+ * The straightening, in degrees, that levels a line drawn from (0, 0) to
+ * (dx, dy) on screen. Lines steeper than 45° are taken as verticals.
+ */
+export const levelingAngle = (dx: number, dy: number) => {
+  let angle = (Math.atan2(dy, dx) * 180) / Math.PI;
+  // The direction it was drawn in does not matter
+  if (angle > 90) angle -= 180;
+  if (angle < -90) angle += 180;
+  if (angle > 45) angle -= 90;
+  if (angle < -45) angle += 90;
+  return -angle;
+};
+
+export const describeTransform = (transform: TransformSettings) =>
+  [
+    transform.rotate && `rotated ${transform.rotate * 90}°`,
+    transform.flipHorizontal && 'flipped horizontally',
+    transform.flipVertical && 'flipped vertically',
+    transform.straighten && `straightened ${transform.straighten > 0 ? '+' : ''}${transform.straighten.toFixed(1)}°`,
+    transform.straighten && transform.autoCrop && 'trimmed',
+  ]
+    .filter(Boolean)
+    .join(', ')
+    .replace(/^./, (first) => first.toUpperCase());
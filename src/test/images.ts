@@ -0,0 +1,89 @@
+import { asciiBytes, concat, riffChunk } from "@/lib/metadata/chunks";
+import { crc32 } from "@/lib/metadata/crc32";
+
+// Small hand-built files for the byte-level tests. Only the containers are
+// real; the image data inside them is not meant to be decoded.
+
+/** RGBA pixels with a pattern that exercises every channel; `alpha` makes some pixels translucent. */
+export const testImage = (width: number, height: number, alpha = false): ImageData => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data[i * 4] = (i * 7) & 0xff;
+    data[i * 4 + 1] = (i * 13) & 0xff;
+    data[i * 4 + 2] = (i >> 2) & 0xff;
+    data[i * 4 + 3] = alpha ? (i * 5) & 0xff : 255;
+  }
+  return { width, height, data, colorSpace: 'srgb' } as ImageData;
+};
+
+/** SOI, an empty quantisation table, a scan header and EOI, with no APP segments. */
+export const bareJpeg = (): Uint8Array =>
+  new Uint8Array([
+    0xff, 0xd8, 0xff, 0xdb, 0x00, 0x43, 0x00,
+    ...new Uint8Array(64).fill(1),
+    0xff, 0xda, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3f, 0x00, 0x12, 0x34, 0xff, 0xd9,
+  ]);
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+/** The PNG signature, an 8-bit RGBA IHDR of the given size and IEND. */
+export const barePng = (width: number, height: number): Uint8Array => {
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  ihdr.set([8, 6, 0, 0, 0], 8);
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...pngChunk('IHDR', ihdr),
+    ...pngChunk('IEND', new Uint8Array(0)),
+  ]);
+};
+
+/** A simple (VP8L only) WebP of the given size. */
+export const bareWebp = (width: number, height: number): Uint8Array => {
+  const header = new Uint8Array(5);
+  header[0] = 0x2f;
+  new DataView(header.buffer).setUint32(1, (width - 1) | ((height - 1) << 14), true);
+  const payload = concat(asciiBytes('WEBP'), riffChunk('VP8L', concat(header, new Uint8Array([0, 0, 0]))));
+  const riff = new Uint8Array(8);
+  riff.set(asciiBytes('RIFF'));
+  new DataView(riff.buffer).setUint32(4, payload.length, true);
+  return concat(riff, payload);
+};
+
+const u16 = (value: number) => new Uint8Array([value >> 8, value & 0xff]);
+const u32 = (value: number) => new Uint8Array([value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+const box = (type: string, ...parts: Uint8Array[]) => {
+  const body = concat(...parts);
+  return concat(u32(8 + body.length), asciiBytes(type), body);
+};
+const fullBox = (type: string, version: number, ...parts: Uint8Array[]) => box(type, new Uint8Array([version, 0, 0, 0]), ...parts);
+
+/**
+ * An AVIF with one 'av01' item, laid out as libavif writes it: ftyp, then a
+ * meta box without EXIF, then the item's `payload` in mdat.
+ */
+export const bareAvif = (payload: Uint8Array): Uint8Array => {
+  const ftyp = box('ftyp', asciiBytes('avif'), u32(0), asciiBytes('mif1avif'));
+  const meta = (offset: number) =>
+    fullBox(
+      'meta',
+      0,
+      fullBox('hdlr', 0, u32(0), asciiBytes('pict'), u32(0), u32(0), u32(0), new Uint8Array([0])),
+      fullBox('pitm', 0, u16(1)),
+      fullBox('iloc', 0, new Uint8Array([0x44, 0x00]), u16(1), u16(1), u16(0), u16(1), u32(offset), u32(payload.length)),
+      fullBox('iinf', 0, u16(1), fullBox('infe', 2, u16(1), u16(0), asciiBytes('av01'), new Uint8Array([0]))),
+      box('iprp', box('ipco'), fullBox('ipma', 0, u32(0))),
+    );
+  const offset = ftyp.length + meta(0).length + 8;
+  return concat(ftyp, meta(offset), box('mdat', payload));
+};
@@ -0,0 +1,47 @@
+const CLEAR = 256;
+const EOI = 257;
+
+/**
+ * A reference TIFF LZW decoder written the way libtiff reads: MSB-first
+ * codes, widening one code early. Used to check lzwEncode.
+ */
+export const lzwDecode = (input: Uint8Array): Uint8Array => {
+  const out: number[] = [];
+  let position = 0;
+  let width = 9;
+  let table: number[][] = [];
+  let previous: number[] | null = null;
+
+  const read = () => {
+    let code = 0;
+    for (let i = 0; i < width; i++, position++) {
+      if (position >> 3 >= input.length) return EOI;
+      code = (code << 1) | ((input[position >> 3] >> (7 - (position & 7))) & 1);
+    }
+    return code;
+  };
+  const reset = () => {
+    table = Array.from({ length: 258 }, (_, i) => (i < 256 ? [i] : []));
+    width = 9;
+    previous = null;
+  };
+
+  reset();
+  for (let code = read(); code !== EOI; code = read()) {
+    if (code === CLEAR) {
+      reset();
+      continue;
+    }
+    if (!previous) {
+      out.push(...table[code]);
+      previous = table[code];
+      continue;
+    }
+    const entry = code < table.length ? table[code] : [...previous, previous[0]];
+    out.push(...entry);
+    table.push([...previous, entry[0]]);
+    previous = entry;
+    if (table.length + 1 > (1 << width) - 1 && width < 12) width++;
+  }
+  return Uint8Array.from(out);
+};
@@ -15,4 +15,12 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  // The jSquash codecs and ONNX Runtime locate their .wasm files relative to the module; pre-bundling breaks that
+  optimizeDeps: {
+    exclude: ["@jsquash/avif", "@jsquash/webp", "onnxruntime-web"],
+  },
+  // The multi-threaded AVIF encoder spawns module workers, which need ES output
+  worker: {
+    format: "es",
+  },
 }));